@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdfjs loads its worker and canvas backend at runtime, which breaks when bundled
+  serverExternalPackages: ['pdfjs-dist', '@napi-rs/canvas'],
 };
 
 export default nextConfig;
@@ -1,309 +1,200 @@
-import { GoogleGenAI } from "@google/genai";
 import { NextRequest, NextResponse } from "next/server";
-import sharp from 'sharp';
-
-
-const genAI = new GoogleGenAI({apiKey: process.env.GEMINI_API_KEY!});
-
-function buildPromptWithUserInstructions(basePrompt: string, userPrompt?: string) {
-  if (!userPrompt) return basePrompt;
-  
-  const userInstructionsSection = `
+import { mergeExistingCategories, type ExistingCategory } from "@/lib/existing-categories";
+import { addToLibrary, libraryCategories, saveLibraryThumbnails } from "@/lib/library";
+import {
+  analyzeItems,
+  buildResults,
+  categorizeAnalyses,
+  MAX_INLINE_ITEMS,
+  prepareItems,
+  resolveBatchSize,
+  summarizeCache,
+  type PipelineItem
+} from "@/lib/pipeline";
+import { getProfile } from "@/lib/profiles";
+import { getProvider, type VisionProvider } from "@/lib/providers";
+import type { OrganizationProfile } from "@/lib/types";
+import { parseUploadRequest, UploadError } from "@/lib/uploads";
+import { addCounts, createUsageMeter, summarizeUsage } from "@/lib/usage";
+
+function wantsStream(request: NextRequest) {
+  return request.nextUrl.searchParams.get('stream') === '1' ||
+    (request.headers.get('accept') || '').includes('application/x-ndjson');
+}
 
-USER INSTRUCTIONS:
-The user has provided the following custom instructions for organizing their files:
-"${userPrompt}"
+/**
+ * Streams the pipeline as newline-delimited JSON: a `start` event, one
+ * `analysis` event per image as its phase-1 call finishes (in completion
+ * order), then a final `categories` event with the same payload the
+ * non-streaming response returns. Failures after the stream has started are
+ * reported as an `error` event. When the client goes away (`signal`, or the
+ * stream is cancelled), no further model calls are made.
+ */
+function streamAnalysis(
+  signal: AbortSignal,
+  provider: VisionProvider,
+  allItems: PipelineItem[],
+  userPrompt: string | undefined,
+  profile: OrganizationProfile | undefined,
+  existing: ExistingCategory[],
+  noCache: boolean,
+  batchSize: number,
+  transcribe: boolean
+) {
+  const encoder = new TextEncoder();
+  const cancelled = new AbortController();
+  // Set once the client is gone or the stream is done; nothing is written after
+  let closed = false;
+  const stop = () => {
+    closed = true;
+    cancelled.abort();
+  };
+  signal.addEventListener('abort', stop);
 
-IMPORTANT: Follow the user's instructions as closely as possible while maintaining the JSON structure. If the user specifies custom grouping criteria, apply them in your analysis.`;
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: object) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        } catch {
+          stop();
+        }
+      };
 
-  return basePrompt + userInstructionsSection;
-}
+      try {
+        send({ type: 'start', total: allItems.length });
+
+        const meter = createUsageMeter();
+        const initialAnalyses = await analyzeItems(provider, allItems, {
+          useCache: !noCache,
+          batchSize,
+          transcribe,
+          usage: meter,
+          signal: cancelled.signal,
+          onAnalysis: analysis => send({ type: 'analysis', index: analysis.index, analysis })
+        });
+        await saveLibraryThumbnails(allItems, initialAnalyses);
+        cancelled.signal.throwIfAborted();
+
+        const { categories, parseStatus, ruleAssigned, usage } = await categorizeAnalyses(provider, initialAnalyses, userPrompt, profile, existing);
+        addCounts(meter.categorization, usage);
+        const results = buildResults(initialAnalyses, categories, ruleAssigned);
+        await addToLibrary(results, categories);
+        send({
+          type: 'categories',
+          results,
+          categories,
+          categoriesParseStatus: parseStatus,
+          cache: summarizeCache(initialAnalyses),
+          usage: summarizeUsage(provider, meter, batchSize),
+          userPrompt: userPrompt || null,
+          profileId: profile?.id ?? null,
+          provider: { id: provider.id, model: provider.model }
+        });
+      } catch (error) {
+        if (closed) return;
+        console.error("Streaming API Error:", error);
+        send({ type: 'error', error: "Internal server error" });
+      } finally {
+        signal.removeEventListener('abort', stop);
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      stop();
+    }
+  });
 
-async function processFile(file: File): Promise<{buffer: Buffer, mimeType: string}> {
-  const isHeic = file.type === 'image/heic' || file.name.toLowerCase().endsWith('.heic');
-  
-  if (isHeic) {
-    try {
-      const buffer = await file.arrayBuffer();
-      const convertedBuffer = await sharp(Buffer.from(buffer))
-        .jpeg({ quality: 80 })
-        .toBuffer();
-      
-      return {
-        buffer: convertedBuffer,
-        mimeType: 'image/jpeg'
-      };
-    } catch (error) {
-      console.error('HEIC conversion failed:', error);
-      // Fallback to original file if conversion fails
-      const buffer = await file.arrayBuffer();
-      return {
-        buffer: Buffer.from(buffer),
-        mimeType: file.type
-      };
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform'
     }
-  }
-  
-  // For non-HEIC files, return as is
-  const buffer = await file.arrayBuffer();
-  return {
-    buffer: Buffer.from(buffer),
-    mimeType: file.type
-  };
+  });
 }
 
+/**
+ * Analyzes and categorizes up to MAX_INLINE_ITEMS uploads, streamed with
+ * `?stream=1`. With `?phase=analysis` only phase 1 runs and the response is
+ * `{ analyses, cache, usage, provider }`; the page uses it to retry failed
+ * items before re-running /api/categorize over the whole batch.
+ */
 export async function POST(request: NextRequest) {
   try {
-    // Try to parse as FormData first (for file uploads)
-    let files: File[] = [];
-    let imageDataUrls: string[] = [];
-    let userPrompt: string | undefined;
-    
-    const contentType = request.headers.get('content-type') || '';
-    
-    if (contentType.includes('multipart/form-data')) {
-      const formData = await request.formData();
-      files = Array.from(formData.getAll('files') as File[]);
-      imageDataUrls = Array.from(formData.getAll('images') as string[]);
-      userPrompt = formData.get('userPrompt') as string | null || undefined;
-    } else {
-      // Fallback to JSON for backward compatibility (images only)
-      const body = await request.json();
-      imageDataUrls = body.images || [];
-      userPrompt = body.userPrompt;
+    const provider = getProvider();
+    const upload = await parseUploadRequest(request);
+    const { files, lastModified, imageDataUrls, userPrompt, profileId, noCache, transcribe } = upload;
+    const batchSize = resolveBatchSize(upload.batchSize);
+
+    const profile = profileId ? await getProfile(profileId) : undefined;
+    if (profileId && !profile) {
+      return NextResponse.json({ error: `Unknown profile "${profileId}"` }, { status: 400 });
     }
-    
-    const allItems: Array<{type: 'image', data: string, name?: string}> = [];
-    
-    // Process uploaded files with HEIC conversion support (PDFs are not allowed)
-    for (const file of files) {
-      if (file.type.startsWith('image/') || file.name.toLowerCase().endsWith('.heic')) {
-        const { buffer, mimeType } = await processFile(file);
-        const base64 = buffer.toString('base64');
-        const dataUrl = `data:${mimeType};base64,${base64}`;
-        allItems.push({
-          type: 'image',
-          data: dataUrl,
-          name: file.name
-        });
-      }
+
+    // Checked before anything is decoded; preparing never adds items
+    if (files.length + imageDataUrls.length > MAX_INLINE_ITEMS) {
+      return NextResponse.json(
+        { error: `Maximum ${MAX_INLINE_ITEMS} images allowed. Use POST /api/jobs for larger batches.` },
+        { status: 400 }
+      );
     }
-    
-    // Add image URLs from JSON payload
-    imageDataUrls.forEach(imageData => {
-      allItems.push({
-        type: 'image',
-        data: imageData
-      });
-    });
 
-    // If no valid images, check if only PDFs were uploaded and return a clear error
+    const existing = mergeExistingCategories(upload.existingCategories, upload.reuseCategories ? await libraryCategories() : []);
+    const allItems = await prepareItems(files, imageDataUrls, lastModified);
+
     if (allItems.length === 0) {
-      const onlyPdfs = files.length > 0 && files.every(file => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf'));
-      if (onlyPdfs) {
-        return NextResponse.json({ error: "PDF files are not supported. Please upload image files only." }, { status: 400 });
-      }
       return NextResponse.json({ error: "No images provided" }, { status: 400 });
     }
-    
-    if (allItems.length > 10) {
-      return NextResponse.json({ error: "Maximum 10 images allowed" }, { status: 400 });
-    }
-
-    // PHASE 1: Analyze all images to extract content and text
-    const baseAnalysisPrompt = `You are analyzing an image to extract key information. Look carefully at all visible content, text, UI elements, and context clues.
-
-Analyze this image and return ONLY a valid JSON object with this exact structure:
-
-{
-  "content": "brief content description using underscores (payslip_document, react_error, login_form, api_response, pdf_document, salary_statement, website_page, photo, diagram, etc.)",
-  "extracted_text": "key visible text from the document content (up to 150 characters, focus on meaningful text not UI labels)",
-  "main_theme": "single word describing the primary theme (finance, coding, design, personal, business, error, social, etc.)",
-  "confidence": 85
-}`;
-
-    const initialAnalyses = await Promise.all(
-      allItems.map(async (item, index) => {
-        try {
-          const enhancedPrompt = buildPromptWithUserInstructions(baseAnalysisPrompt, userPrompt);
-          const base64Data = item.data.replace(/^data:image\/[a-z]+;base64,/, '');
-          
-          const result = await genAI.models.generateContent({
-            model: "gemini-2.5-pro",
-            contents: [
-              {
-                parts: [
-                  { text: enhancedPrompt },
-                  {
-                    inlineData: {
-                      data: base64Data,
-                      mimeType: item.data.includes('data:image/jpeg') ? 'image/jpeg' : 'image/png'
-                    }
-                  }
-                ],
-                role: "user"
-              }
-            ]
-          });
-          
-          const responseText = result.text?.trim() || '';
-          const cleanResponseText = responseText
-            .replace(/```json\n?/g, '')
-            .replace(/```\n?/g, '')
-            .replace(/^json\n?/g, '')
-            .trim();
-          
-          let analysis;
-          try {
-            analysis = JSON.parse(cleanResponseText);
-          } catch (parseError) {
-            const jsonMatch = cleanResponseText.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-              try {
-                analysis = JSON.parse(jsonMatch[0]);
-              } catch (secondParseError) {
-                analysis = null;
-              }
-            }
-            
-            if (!analysis) {
-              analysis = {
-                content: `image_document_${index + 1}`,
-                extracted_text: "Could not extract text",
-                main_theme: "misc",
-                confidence: 20
-              };
-            }
-          }
-          
-          return {
-            index,
-            content: String(analysis.content || `image_document_${index + 1}`).replace(/\s+/g, '_'),
-            extracted_text: String(analysis.extracted_text || "").substring(0, 150),
-            main_theme: String(analysis.main_theme || 'misc').toLowerCase(),
-            confidence: Math.min(100, Math.max(0, Number(analysis.confidence) || 50)),
-            fileName: item.name || `${item.type}_${index + 1}`
-          };
-          
-        } catch (error) {
-          console.error(`Error in initial analysis for image ${index}:`, error);
-          return {
-            index,
-            content: `error_image_${index + 1}`,
-            extracted_text: "Processing failed",
-            main_theme: "misc",
-            confidence: 0,
-            fileName: item.name || `${item.type}_${index + 1}`
-          };
-        }
-      })
-    );
-
-    // PHASE 2: Create smart categories based on all the analyzed content
-    const categoryPrompt = `Based on the following image analysis results, create smart categories that group similar content together. Create a broader category.
-
-Image Analysis Results:
-${initialAnalyses.map((analysis, i) => 
-  `Image ${i + 1}: Content="${analysis.content}", Text="${analysis.extracted_text}", Theme="${analysis.main_theme}", File="${analysis.fileName}"`
-).join('\n')}
 
-${userPrompt ? `\nUser Instructions: "${userPrompt}"` : ''}
-
-Create categories that make logical sense based on the actual content. Return ONLY a valid JSON object with this structure:
-
-{
-  "categories": {
-    "category_name_1": {
-      "description": "Brief description of what this category contains",
-      "images": [0, 1, 3]
-    },
-    "category_name_2": {
-      "description": "Brief description of what this category contains", 
-      "images": [2, 4]
+    const analysisOnly = request.nextUrl.searchParams.get('phase') === 'analysis';
+    if (wantsStream(request) && !analysisOnly) {
+      return streamAnalysis(request.signal, provider, allItems, userPrompt, profile, existing, noCache, batchSize, transcribe);
     }
-  }
-}
-
-Guidelines:
-- Use descriptive category names (e.g., "financial_documents", "code_errors", "ui_designs", "personal_photos")
-- Each image index should appear in exactly one category
-- Create 2-6 categories based on natural groupings
-- Consider content type, theme, and extracted text for grouping`;
 
-    let categorization: { categories: Record<string, { description: string; images: number[] }> };
-    try {
-      const categoryResult = await genAI.models.generateContent({
-        model: "gemini-2.5-pro",
-        contents: [
-          {
-            parts: [{ text: categoryPrompt }],
-            role: "user"
-          }
-        ]
+    // PHASE 1: Analyze all images to extract content and text
+    const meter = createUsageMeter();
+    const initialAnalyses = await analyzeItems(provider, allItems, { useCache: !noCache, batchSize, transcribe, usage: meter });
+    await saveLibraryThumbnails(allItems, initialAnalyses);
+    if (analysisOnly) {
+      return NextResponse.json({
+        analyses: initialAnalyses,
+        cache: summarizeCache(initialAnalyses),
+        usage: summarizeUsage(provider, meter, batchSize),
+        provider: { id: provider.id, model: provider.model }
       });
-      
-      const categoryResponseText = categoryResult.text?.trim() || '';
-      const cleanCategoryResponse = categoryResponseText
-        .replace(/```json\n?/g, '')
-        .replace(/```\n?/g, '')
-        .replace(/^json\n?/g, '')
-        .trim();
-      
-      categorization = JSON.parse(cleanCategoryResponse);
-    } catch (error) {
-      console.error("Error creating categories:", error);
-      // Fallback: create categories based on main themes
-      const themes = [...new Set(initialAnalyses.map(a => a.main_theme))];
-      categorization = {
-        categories: themes.reduce((acc: Record<string, { description: string; images: number[] }>, theme, _themeIndex) => {
-          const imageIndices = initialAnalyses
-            .map((a, i) => ({ theme: a.main_theme, index: i }))
-            .filter(item => item.theme === theme)
-            .map(item => item.index);
-          acc[theme] = {
-            description: `Images related to ${theme}`,
-            images: imageIndices
-          };
-          return acc;
-        }, {})
-      };
     }
 
+    // PHASE 2: Create smart categories based on all the analyzed content
+    const { categories, parseStatus, ruleAssigned, usage } = await categorizeAnalyses(provider, initialAnalyses, userPrompt, profile, existing);
+    addCounts(meter.categorization, usage);
+
     // PHASE 3: Build final results with categories
-    const results = initialAnalyses.map((analysis, index) => {
-      // Find which category this image belongs to
-      const categoryEntry = Object.entries(categorization.categories || {})
-        .find(([_, categoryInfo]) => 
-          Array.isArray(categoryInfo.images) && categoryInfo.images.includes(index)
-        );
-      
-      const categoryName = categoryEntry ? categoryEntry[0] : 'uncategorized';
-      
-      return {
-        index: analysis.index,
-        analysis: {
-          content: analysis.content,
-          category: categoryName,
-          extracted_text: analysis.extracted_text,
-          confidence: analysis.confidence
-        },
-        status: 'success',
-        fileType: 'image',
-        fileName: analysis.fileName
-      };
-    });
+    const results = buildResults(initialAnalyses, categories, ruleAssigned);
+    await addToLibrary(results, categories);
     
     return NextResponse.json({ 
       results,
-      categories: categorization.categories || {},
-      userPrompt: userPrompt || null
+      categories,
+      categoriesParseStatus: parseStatus,
+      cache: summarizeCache(initialAnalyses),
+      usage: summarizeUsage(provider, meter, batchSize),
+      userPrompt: userPrompt || null,
+      profileId: profile?.id ?? null,
+      provider: { id: provider.id, model: provider.model }
     });
     
   } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("API Error:", error);
     return NextResponse.json(
       { error: "Internal server error" }, 
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
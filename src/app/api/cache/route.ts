@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { clearAnalysisCache } from "@/lib/analysis-cache";
+
+// Invalidates every cached phase-1 analysis
+export async function DELETE() {
+  try {
+    const removed = await clearAnalysisCache();
+    return NextResponse.json({ removed });
+  } catch (error) {
+    console.error("Cache clear error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MAX_EXISTING_CATEGORIES, mergeExistingCategories, parseExistingCategories } from "@/lib/existing-categories";
+import { isContentType, toDetails } from "@/lib/extractors";
+import { addToLibrary, libraryCategories } from "@/lib/library";
+import { buildResults, categorizeAnalyses } from "@/lib/pipeline";
+import { getProfile } from "@/lib/profiles";
+import { getProvider } from "@/lib/providers";
+import { validate, type JsonSchema } from "@/lib/schemas";
+import { toTranscript } from "@/lib/transcripts";
+import type { ImageAnalysis } from "@/lib/types";
+import { addCounts, createUsageMeter, summarizeUsage } from "@/lib/usage";
+
+// The phase-1 fields categorization needs; anything else on each analysis is passed through
+const ANALYSES_INPUT_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      index: { type: 'integer', minimum: 0 },
+      content: { type: 'string' },
+      extracted_text: { type: 'string' },
+      main_theme: { type: 'string' },
+      tags: { type: 'array', items: { type: 'string' } },
+      confidence: { type: 'number' },
+      fileName: { type: 'string' },
+      status: { type: 'string', enum: ['success', 'fallback', 'failed'] }
+    },
+    required: ['index', 'content', 'extracted_text', 'main_theme', 'confidence', 'fileName']
+  }
+};
+
+/**
+ * Re-runs only phase 2 over analyses from an earlier run, e.g. with new
+ * grouping instructions or a different profile.
+ * Body: `{ analyses: ImageAnalysis[], userPrompt?: string, profileId?: string,
+ * existingCategories?: Array<string | { name, description }>, reuseCategories?: boolean }`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const errors = body ? validate(ANALYSES_INPUT_SCHEMA, body.analyses, '$.analyses') : ['Body must be JSON'];
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Invalid analyses", details: errors.slice(0, 20) }, { status: 400 });
+    }
+    if (body.analyses.length === 0) {
+      return NextResponse.json({ error: "No analyses provided" }, { status: 400 });
+    }
+
+    const analyses: ImageAnalysis[] = (body.analyses as ImageAnalysis[])
+      .map(analysis => ({
+        ...analysis,
+        tags: analysis.tags ?? [],
+        // Details and transcripts come back from the client, so they are checked like a model answer
+        content_type: isContentType(analysis.content_type) ? analysis.content_type : undefined,
+        details: toDetails(analysis.details?.type, analysis.details),
+        transcript: toTranscript(analysis.transcript),
+        fileType: analysis.fileType ?? 'image',
+        parseStatus: analysis.parseStatus ?? 'parsed',
+        status: analysis.status ?? 'success',
+        cached: analysis.cached ?? false
+      }))
+      .sort((a, b) => a.index - b.index);
+    const userPrompt = typeof body.userPrompt === 'string' && body.userPrompt.trim() ? body.userPrompt.trim() : undefined;
+    const profileId = typeof body.profileId === 'string' && body.profileId ? body.profileId : undefined;
+    const profile = profileId ? await getProfile(profileId) : undefined;
+    if (profileId && !profile) {
+      return NextResponse.json({ error: `Unknown profile "${profileId}"` }, { status: 400 });
+    }
+
+    const existingCategories = parseExistingCategories(body.existingCategories);
+    if (!existingCategories) {
+      return NextResponse.json(
+        { error: `existingCategories must be a list of at most ${MAX_EXISTING_CATEGORIES} names or { name, description } objects` },
+        { status: 400 }
+      );
+    }
+    const existing = mergeExistingCategories(existingCategories, body.reuseCategories === true ? await libraryCategories() : []);
+
+    const provider = getProvider();
+    const { categories, parseStatus, ruleAssigned, usage } = await categorizeAnalyses(provider, analyses, userPrompt, profile, existing);
+    // Only phase 2 runs here, so the analysis phase reports no usage
+    const meter = createUsageMeter();
+    addCounts(meter.categorization, usage);
+    const results = buildResults(analyses, categories, ruleAssigned);
+    // Library entries follow the latest categorization
+    await addToLibrary(results, categories);
+
+    return NextResponse.json({
+      results,
+      categories,
+      categoriesParseStatus: parseStatus,
+      usage: summarizeUsage(provider, meter, 1),
+      userPrompt: userPrompt || null,
+      profileId: profile?.id ?? null,
+      provider: { id: provider.id, model: provider.model }
+    });
+  } catch (error) {
+    console.error("Categorize API Error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import JSZip from "jszip";
+import { NextRequest } from "next/server";
+import sharp from 'sharp';
+import type { ExportManifest } from "@/lib/export";
+
+let POST: (request: NextRequest) => Promise<Response>;
+let dataDir: string;
+
+// The route reads its settings when it is loaded, so it is imported after they are set
+before(async () => {
+  dataDir = await mkdtemp(path.join(tmpdir(), 'export-route-'));
+  Object.assign(process.env, { VISION_PROVIDER: 'stub', ORGANIZER_DATA_DIR: dataDir, LIBRARY: 'off', ANALYSIS_CACHE: 'off' });
+  ({ POST } = await import("./route"));
+});
+
+after(() => rm(dataDir, { recursive: true, force: true }));
+
+function png(background: { r: number; g: number; b: number }, width: number) {
+  return sharp({ create: { width, height: 20, channels: 3, background } }).png().toBuffer();
+}
+
+function exportRequest(files: File[], query = '') {
+  const form = new FormData();
+  for (const file of files) form.append('files', file);
+  return new NextRequest(`http://localhost/api/export${query}`, { method: 'POST', body: form });
+}
+
+describe('POST /api/export', () => {
+  it('keeps each file with its own analysis when an upload in the middle is skipped', async () => {
+    const uploads = [
+      new File([await png({ r: 220, g: 30, b: 30 }, 30)], 'error_log.png', { type: 'image/png' }),
+      new File(['just some notes'], 'notes.txt', { type: 'text/plain' }),
+      new File([await png({ r: 30, g: 30, b: 220 }, 40)], 'receipt_1.png', { type: 'image/png' })
+    ];
+    const response = await POST(exportRequest(uploads));
+    assert.equal(response.status, 200);
+
+    const zip = await JSZip.loadAsync(await response.arrayBuffer());
+    const manifest = JSON.parse(await zip.file('manifest.json')!.async('string')) as ExportManifest;
+    assert.deepEqual(manifest.files.map(file => [file.originalName, file.content]), [
+      ['error_log.png', 'react_error'],
+      ['receipt_1.png', 'receipt']
+    ]);
+    for (const file of manifest.files) {
+      const original = Buffer.from(await uploads.find(upload => upload.name === file.originalName)!.arrayBuffer());
+      const exported = await zip.file(file.newPath)!.async('nodebuffer');
+      assert.ok(exported.equals(original), `${file.newPath} holds the bytes of ${file.originalName}`);
+    }
+  });
+
+  it('rejects uploads without a single image', async () => {
+    const response = await POST(exportRequest([new File(['just some notes'], 'notes.txt', { type: 'text/plain' })]));
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), { error: 'No images provided' });
+  });
+});
@@ -0,0 +1,314 @@
+import JSZip from "jszip";
+import { NextRequest, NextResponse } from "next/server";
+import sharp from 'sharp';
+import { withParentCategories } from "@/lib/category-tree";
+import { embeddedFields, embedMetadata } from "@/lib/embedded-metadata";
+import { mergeExistingCategories } from "@/lib/existing-categories";
+import { isContentType, toDetails } from "@/lib/extractors";
+import {
+  addExportIndexes,
+  buildManifest,
+  exportRedaction,
+  manifestToCsv,
+  manifestToMarkdown,
+  planExportPaths,
+  selectExportedResults,
+  thumbnailPath,
+  type DuplicateExportMode,
+  type ExportableResult,
+  type RedactionMode,
+  type RedactionOutcome
+} from "@/lib/export";
+import { DEFAULT_NAME_TEMPLATE } from "@/lib/naming";
+import { addToLibrary, libraryCategories, saveLibraryThumbnails } from "@/lib/library";
+import { isPdf } from "@/lib/pdf";
+import { analyzeItems, buildResults, categorizeAnalyses, MAX_INLINE_ITEMS, prepareItems, resolveBatchSize } from "@/lib/pipeline";
+import { getProfile } from "@/lib/profiles";
+import { getProvider } from "@/lib/providers";
+import { redactFile } from "@/lib/redaction";
+import { SENSITIVE_REGION_SCHEMA, validate, type JsonSchema } from "@/lib/schemas";
+import { DEFAULT_REDACTION_LEVEL, REDACTION_LEVELS } from "@/lib/sensitivity";
+import { toTranscript, transcriptFile } from "@/lib/transcripts";
+import type { CategoryMap, RedactionLevel, RunUsage } from "@/lib/types";
+import { parseUploadRequest, UploadError } from "@/lib/uploads";
+import { addCounts, createUsageMeter, summarizeUsage } from "@/lib/usage";
+
+const EXPORT_FORMATS = ['zip', 'json', 'csv', 'md'] as const;
+type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const REDACTION_MODES: RedactionMode[] = ['off', 'blur', 'black'];
+
+const THUMBNAIL_WIDTH = 320;
+
+const CAPTURE_METADATA_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    capturedAt: { type: 'string' },
+    capturedAtSource: { type: 'string', enum: ['exif', 'png', 'pdf', 'lastModified'] },
+    width: { type: 'number', minimum: 0 },
+    height: { type: 'number', minimum: 0 },
+    orientation: { type: 'string', enum: ['portrait', 'landscape', 'square'] },
+    device: { type: 'string' },
+    software: { type: 'string' },
+    isScreenshot: { type: 'boolean' },
+    screenshotHints: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['isScreenshot', 'screenshotHints']
+};
+
+// The fields of an /api/analyze result that an export uses
+const RESULTS_INPUT_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      index: { type: 'integer', minimum: 0 },
+      status: { type: 'string', enum: ['success', 'fallback', 'failed'] },
+      error: { type: 'string' },
+      analysis: {
+        type: 'object',
+        properties: {
+          content: { type: 'string' },
+          category: { type: 'string' },
+          extracted_text: { type: 'string' },
+          tags: { type: 'array', items: { type: 'string' } },
+          confidence: { type: 'number' }
+        },
+        required: ['content', 'category', 'extracted_text', 'confidence']
+      },
+      sensitivity: {
+        type: 'object',
+        properties: {
+          level: { type: 'string', enum: ['none', 'low', 'high'] },
+          findings: {
+            type: 'array',
+            items: { type: 'object', properties: { kind: { type: 'string' } }, required: ['kind'] }
+          },
+          regions: { type: 'array', items: SENSITIVE_REGION_SCHEMA }
+        },
+        required: ['level', 'findings', 'regions']
+      },
+      metadata: CAPTURE_METADATA_SCHEMA,
+      duplicate: {
+        type: 'object',
+        properties: {
+          of: { type: 'integer', minimum: 0 },
+          kind: { type: 'string', enum: ['exact', 'near'] },
+          distance: { type: 'number', minimum: 0 }
+        },
+        required: ['of', 'kind', 'distance']
+      }
+    },
+    required: ['index', 'status', 'analysis']
+  }
+};
+
+// One entry of the `categories` map
+const CATEGORY_INPUT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    description: { type: 'string' },
+    images: { type: 'array', items: { type: 'integer', minimum: 0 } },
+    origin: { type: 'string', enum: ['existing', 'new'] },
+    justification: { type: 'string' }
+  },
+  required: ['description', 'images']
+};
+
+// The schema subset has no null, and results carry null for fields that are
+// unknown (e.g. `capturedAt`), so those are checked as if they were left out
+function withoutNulls(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(withoutNulls);
+  if (typeof value !== 'object' || value === null) return value ?? undefined;
+  return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, withoutNulls(field)]));
+}
+
+function validateCategories(value: unknown): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return ['$.categories must be an object'];
+  return Object.entries(value).flatMap(([name, info]) => validate(CATEGORY_INPUT_SCHEMA, info, `$.categories[${JSON.stringify(name)}]`));
+}
+
+// Categories are optional for earlier results; without them the names are
+// taken from the results (parents of nested ones included) and descriptions
+// are left empty
+function categoriesFromResults(results: ExportableResult[]): CategoryMap {
+  const categories: CategoryMap = {};
+  for (const result of results) {
+    categories[result.analysis.category] ??= { description: '', images: [] };
+    categories[result.analysis.category].images.push(result.index);
+  }
+  return withParentCategories(categories);
+}
+
+async function createThumbnail(buffer: Buffer): Promise<Buffer | null> {
+  try {
+    return await sharp(buffer)
+      .rotate()
+      .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds the same export bundle as the browser's ZIP download. Takes the
+ * uploaded `files` (multipart) and either analyzes them like /api/analyze or
+ * reuses the `results`/`categories` of an earlier run. `?format=` selects
+ * `zip` (default: files, thumbnails and all indexes), or just the `json`
+ * manifest, `csv` or `md` index. `?duplicates=best` keeps only the best copy
+ * of each duplicate cluster. `?redact=blur|black` covers the sensitive
+ * regions of images flagged `high` (or `?redactLevel=low` and above) and
+ * masks secrets in the indexes. `?embed=1`
+ * writes each file's analysis into its own metadata (JPEG and PNG). With
+ * `transcribe`, code, terminal and error images get a Markdown transcript.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const format = (request.nextUrl.searchParams.get('format') || 'zip') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+    }
+    const duplicateMode = (request.nextUrl.searchParams.get('duplicates') || 'all') as DuplicateExportMode;
+    if (duplicateMode !== 'all' && duplicateMode !== 'best') {
+      return NextResponse.json({ error: "duplicates must be all or best" }, { status: 400 });
+    }
+    const redactionMode = (request.nextUrl.searchParams.get('redact') || 'off') as RedactionMode;
+    if (!REDACTION_MODES.includes(redactionMode)) {
+      return NextResponse.json({ error: `redact must be one of ${REDACTION_MODES.join(', ')}` }, { status: 400 });
+    }
+    const redactionLevel = (request.nextUrl.searchParams.get('redactLevel') || DEFAULT_REDACTION_LEVEL) as RedactionLevel;
+    if (!REDACTION_LEVELS.includes(redactionLevel)) {
+      return NextResponse.json({ error: `redactLevel must be one of ${REDACTION_LEVELS.join(', ')}` }, { status: 400 });
+    }
+    const embed = request.nextUrl.searchParams.get('embed') === '1';
+
+    const upload = await parseUploadRequest(request);
+    const { files, lastModified, profileId } = upload;
+    if (files.length === 0) {
+      return NextResponse.json({ error: "No files provided" }, { status: 400 });
+    }
+
+    const profile = profileId ? await getProfile(profileId) : undefined;
+    if (profileId && !profile) {
+      return NextResponse.json({ error: `Unknown profile "${profileId}"` }, { status: 400 });
+    }
+    const nameTemplate = upload.nameTemplate || profile?.nameTemplate || DEFAULT_NAME_TEMPLATE;
+
+    // The files that `results` are indexed by
+    let uploads = files.map((file, i) => ({ file, lastModified: lastModified[i] }));
+    let results: ExportableResult[];
+    let categories: CategoryMap;
+    // Only known when the files are analyzed here
+    let usage: RunUsage | null = null;
+    if (upload.results !== undefined) {
+      const errors = validate(RESULTS_INPUT_SCHEMA, withoutNulls(upload.results), '$.results');
+      if (errors.length > 0) {
+        return NextResponse.json({ error: "Invalid results", details: errors.slice(0, 20) }, { status: 400 });
+      }
+      // A null map counts as none
+      const categoryInput = withoutNulls(upload.categories);
+      const categoryErrors = categoryInput === undefined ? [] : validateCategories(categoryInput);
+      if (categoryErrors.length > 0) {
+        return NextResponse.json({ error: "Invalid categories", details: categoryErrors.slice(0, 20) }, { status: 400 });
+      }
+      // Details and transcripts come back from the client, so they are checked like a model answer
+      results = (upload.results as ExportableResult[]).map(result => ({
+        ...result,
+        analysis: {
+          ...result.analysis,
+          content_type: isContentType(result.analysis.content_type) ? result.analysis.content_type : undefined,
+          details: toDetails(result.analysis.details?.type, result.analysis.details),
+          transcript: toTranscript(result.analysis.transcript)
+        }
+      }));
+      const outOfRange = results.find(result => result.index >= files.length);
+      if (outOfRange) {
+        return NextResponse.json({ error: `Result index ${outOfRange.index} has no matching file` }, { status: 400 });
+      }
+      categories = categoryInput === undefined ? categoriesFromResults(results) : categoryInput as CategoryMap;
+    } else {
+      if (files.length > MAX_INLINE_ITEMS) {
+        return NextResponse.json(
+          { error: `Maximum ${MAX_INLINE_ITEMS} files can be analyzed per export. Pass the results of a job as "results" for larger batches.` },
+          { status: 400 }
+        );
+      }
+      const provider = getProvider();
+      const batchSize = resolveBatchSize(upload.batchSize);
+      const meter = createUsageMeter();
+      const items = await prepareItems(files, [], lastModified);
+      if (items.length === 0) {
+        return NextResponse.json({ error: "No images provided" }, { status: 400 });
+      }
+      // Uploads that are neither images nor PDFs have no item, so later ones move up
+      uploads = items.map(item => uploads[item.sourceIndex!]);
+      const analyses = await analyzeItems(provider, items, { useCache: !upload.noCache, batchSize, transcribe: upload.transcribe, usage: meter });
+      await saveLibraryThumbnails(items, analyses);
+      const existing = mergeExistingCategories(upload.existingCategories, upload.reuseCategories ? await libraryCategories() : []);
+      const categorization = await categorizeAnalyses(provider, analyses, upload.userPrompt, profile, existing);
+      addCounts(meter.categorization, categorization.usage);
+      const analyzed = buildResults(analyses, categorization.categories, categorization.ruleAssigned);
+      await addToLibrary(analyzed, categorization.categories);
+      results = analyzed;
+      categories = categorization.categories;
+      usage = summarizeUsage(provider, meter, batchSize);
+    }
+
+    const sources = uploads.map(({ file, lastModified }) => ({ name: file.name, lastModified, size: file.size }));
+    results = selectExportedResults(results, sources, duplicateMode);
+
+    if (format !== 'zip') {
+      // No files are exported here, so only the text is redacted
+      const manifest = buildManifest({ results, sources, categories, nameTemplate, redaction: { mode: redactionMode, minLevel: redactionLevel, outcomes: new Map() }, usage });
+      if (format === 'json') return NextResponse.json(manifest);
+      return new Response(format === 'csv' ? manifestToCsv(manifest) : manifestToMarkdown(manifest), {
+        headers: { 'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'text/markdown; charset=utf-8' }
+      });
+    }
+
+    const zip = new JSZip();
+    const thumbnails = new Set<number>();
+    const outcomes = new Map<number, RedactionOutcome>();
+    const embedded = embed ? new Set<number>() : undefined;
+    for (const [index, path] of planExportPaths(results, sources, nameTemplate)) {
+      const result = results.find(r => r.index === index)!;
+      const { file } = uploads[index];
+      let buffer: Buffer | null = Buffer.from(await file.arrayBuffer());
+      const regions = exportRedaction(result, redactionMode, redactionLevel);
+      if (regions && redactionMode !== 'off') {
+        buffer = await redactFile(file, regions, redactionMode);
+        outcomes.set(index, buffer ? 'applied' : 'omitted');
+        // A flagged file is never exported unredacted
+        if (!buffer) continue;
+      }
+      const fields = embedded && embeddedFields(result, redactionMode);
+      const withMetadata = fields ? embedMetadata(buffer, fields) : null;
+      if (withMetadata) embedded!.add(index);
+      zip.file(path, withMetadata ?? buffer);
+      const transcript = transcriptFile(result, path, redactionMode);
+      if (transcript) zip.file(transcript.path, transcript.content);
+      const thumbnail = isPdf(file) ? null : await createThumbnail(buffer);
+      if (thumbnail) {
+        zip.file(thumbnailPath(path), thumbnail);
+        thumbnails.add(index);
+      }
+    }
+    addExportIndexes(zip, buildManifest({ results, sources, categories, nameTemplate, thumbnails, redaction: { mode: redactionMode, minLevel: redactionLevel, outcomes }, embedded, usage }));
+
+    const archive = await zip.generateAsync({ type: 'uint8array' });
+    return new Response(archive, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="organized_images_${new Date().toISOString().split('T')[0]}.zip"`
+      }
+    });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Export API Error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob } from "@/lib/jobs";
+import { summarizeCache } from "@/lib/pipeline";
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = getJob(id);
+
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  const analyses = job.analyses.filter(analysis => analysis !== null);
+
+  return NextResponse.json({
+    id: job.id,
+    status: job.status,
+    total: job.total,
+    processed: job.processed,
+    createdAt: new Date(job.createdAt).toISOString(),
+    updatedAt: new Date(job.updatedAt).toISOString(),
+    // Partial phase-1 output while the job runs; categorized results once completed
+    analyses,
+    results: job.results ?? null,
+    categories: job.categories ?? null,
+    categoriesParseStatus: job.categoriesParseStatus ?? null,
+    cache: summarizeCache(analyses),
+    usage: job.usage ?? null,
+    userPrompt: job.userPrompt ?? null,
+    profileId: job.profile?.id ?? null,
+    error: job.error ?? null
+  });
+}
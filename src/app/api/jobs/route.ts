@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { mergeExistingCategories } from "@/lib/existing-categories";
+import { createJob, MAX_JOB_ITEMS } from "@/lib/jobs";
+import { libraryCategories } from "@/lib/library";
+import { getProfile } from "@/lib/profiles";
+import { parseUploadRequest, UploadError } from "@/lib/uploads";
+
+export async function POST(request: NextRequest) {
+  try {
+    const upload = await parseUploadRequest(request);
+    const { files, lastModified, imageDataUrls, userPrompt, profileId, noCache, batchSize, transcribe } = upload;
+
+    const profile = profileId ? await getProfile(profileId) : undefined;
+    if (profileId && !profile) {
+      return NextResponse.json({ error: `Unknown profile "${profileId}"` }, { status: 400 });
+    }
+
+    if (files.length + imageDataUrls.length > MAX_JOB_ITEMS) {
+      return NextResponse.json({ error: `Maximum ${MAX_JOB_ITEMS} images allowed per job` }, { status: 400 });
+    }
+
+    if (files.length + imageDataUrls.length === 0) {
+      return NextResponse.json({ error: "No images provided" }, { status: 400 });
+    }
+
+    const existingCategories = mergeExistingCategories(upload.existingCategories, upload.reuseCategories ? await libraryCategories() : []);
+    // Preparing the uploads is slow for large batches, so the job does it
+    const job = createJob({ files, imageDataUrls, lastModified }, { userPrompt, profile, existingCategories, useCache: !noCache, batchSize, transcribe });
+    return NextResponse.json(
+      { id: job.id, status: job.status, total: job.total },
+      { status: 202, headers: { Location: `/api/jobs/${job.id}` } }
+    );
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Job creation error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { clearLibrary } from "@/lib/library";
+
+// Forgets every library entry and its preview
+export async function DELETE() {
+  try {
+    const removed = await clearLibrary();
+    return NextResponse.json({ removed });
+  } catch (error) {
+    console.error("Library clear error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
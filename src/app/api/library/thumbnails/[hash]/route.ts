@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readLibraryThumbnail } from "@/lib/library";
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ hash: string }> }) {
+  const { hash } = await params;
+  const thumbnail = await readLibraryThumbnail(hash);
+
+  if (!thumbnail) {
+    return NextResponse.json({ error: "Thumbnail not found" }, { status: 404 });
+  }
+  // Keyed by content hash, so a preview never changes
+  return new Response(new Uint8Array(thumbnail), {
+    headers: { 'Content-Type': 'image/jpeg', 'Cache-Control': 'private, max-age=31536000, immutable' }
+  });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteProfile, getProfile, ProfileError } from "@/lib/profiles";
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const profile = await getProfile(id);
+
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+  }
+  return NextResponse.json({ profile });
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    if (!(await deleteProfile(id))) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    if (error instanceof ProfileError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Profile delete error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listProfiles, ProfileError, saveProfile } from "@/lib/profiles";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ profiles: await listProfiles() });
+  } catch (error) {
+    console.error("Profile list error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// Creates a profile, or replaces the user profile with the same id
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const profile = await saveProfile(body);
+    return NextResponse.json({ profile }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ProfileError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: 400 });
+    }
+    console.error("Profile save error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { RedactionMode } from "@/lib/export";
+import { redactFile } from "@/lib/redaction";
+import { SENSITIVE_REGION_SCHEMA, validate } from "@/lib/schemas";
+import type { SensitiveRegion } from "@/lib/types";
+import { checkFileSize, UploadError } from "@/lib/uploads";
+
+/**
+ * Redacts one image for the browser's ZIP download: multipart `file` plus
+ * `regions` (JSON, as reported in a result's `sensitivity`), with
+ * `?mode=blur|black`. Responds with the redacted image, or 422 when the file
+ * cannot be redacted and has to be left out.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const mode = (request.nextUrl.searchParams.get('mode') || 'blur') as Exclude<RedactionMode, 'off'>;
+    if (mode !== 'blur' && mode !== 'black') {
+      return NextResponse.json({ error: "mode must be blur or black" }, { status: 400 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+    checkFileSize(file.name, file.size);
+    let regions: unknown;
+    try {
+      regions = JSON.parse(String(formData.get('regions') ?? '[]'));
+    } catch {
+      regions = undefined;
+    }
+    const errors = validate({ type: 'array', items: SENSITIVE_REGION_SCHEMA }, regions, '$.regions');
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Invalid regions", details: errors.slice(0, 20) }, { status: 400 });
+    }
+
+    const redacted = await redactFile(file, regions as SensitiveRegion[], mode);
+    if (!redacted) {
+      return NextResponse.json({ error: `${file.name} cannot be redacted` }, { status: 422 });
+    }
+    return new Response(new Uint8Array(redacted), { headers: { 'Content-Type': file.type || 'application/octet-stream' } });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Redact API Error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
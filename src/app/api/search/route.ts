@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MAX_SEARCH_LIMIT, searchLibrary } from "@/lib/library";
+import type { FileType } from "@/lib/types";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Searches the library. `?q=` matches extracted text, labels and file names;
+ * `category`, `theme`, `type` (image or pdf), `from` and `to` (YYYY-MM-DD)
+ * filter; `limit` and `offset` page through the results.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const from = params.get('from') || undefined;
+    const to = params.get('to') || undefined;
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return NextResponse.json({ error: "from and to must be dates as YYYY-MM-DD" }, { status: 400 });
+    }
+    const fileType = params.get('type') || undefined;
+    if (fileType && fileType !== 'image' && fileType !== 'pdf') {
+      return NextResponse.json({ error: "type must be image or pdf" }, { status: 400 });
+    }
+    const limit = Number(params.get('limit') ?? 50);
+    const offset = Number(params.get('offset') ?? 0);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT || !Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json({ error: `limit must be 1-${MAX_SEARCH_LIMIT} and offset a non-negative integer` }, { status: 400 });
+    }
+
+    const result = await searchLibrary({
+      q: params.get('q') || undefined,
+      category: params.get('category') || undefined,
+      theme: params.get('theme') || undefined,
+      fileType: fileType as FileType | undefined,
+      from,
+      to,
+      limit,
+      offset
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Search API Error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
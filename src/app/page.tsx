@@ -1,6 +1,89 @@
 'use client'
 
+import Link from 'next/link'
 import { useEffect, useState } from 'react'
+import {
+  deleteCategory,
+  mergeCategories,
+  moveImages,
+  normalizeCategoryName,
+  renameCategory,
+  splitCategory,
+  UNCATEGORIZED,
+  type CategoryState
+} from '@/lib/category-edits'
+import {
+  DEFAULT_NAME_TEMPLATE,
+  NAME_TEMPLATE_TOKENS,
+  findUnknownTokens
+} from '@/lib/naming'
+import {
+  addExportIndexes,
+  bestCopy,
+  buildManifest,
+  describeCapture,
+  describeUsage,
+  duplicateClusters,
+  exportRedaction,
+  planExportPaths,
+  selectExportedResults,
+  thumbnailPath,
+  type DuplicateExportMode,
+  type RedactionMode,
+  type RedactionOutcome
+} from '@/lib/export'
+import {
+  MAX_CATEGORY_DEPTH,
+  buildCategoryTree,
+  categoryDepth,
+  isWithinCategory,
+  type CategoryNode
+} from '@/lib/category-tree'
+import { embeddedFields, embedMetadata } from '@/lib/embedded-metadata'
+import { foldersFromPaths, MAX_EXISTING_CATEGORIES } from '@/lib/existing-categories'
+import { describeDetails } from '@/lib/extractors'
+import { DEFAULT_REDACTION_LEVEL, describeFindings, isSensitive, redactionRegions, WHOLE_IMAGE } from '@/lib/sensitivity'
+import { facetResults, matchesFilters, type ResultFilters } from '@/lib/tags'
+import { transcriptFile } from '@/lib/transcripts'
+import { combineRunUsage } from '@/lib/usage'
+import type {
+  CaptureMetadata,
+  CategoryMap,
+  ContentDetails,
+  ContentType,
+  DuplicateInfo,
+  ImageAnalysis,
+  OrganizationProfile,
+  ParseStatus,
+  RedactionLevel,
+  ResultStatus,
+  RunUsage,
+  SensitiveRegion,
+  SensitivityReport,
+  TokenUsage,
+  Transcript
+} from '@/lib/types'
+
+// Batches above this size are sent to the background job API instead of /api/analyze
+const MAX_INLINE_FILES = 10;
+// Choices for images per model request; '' leaves it to the server
+const BATCH_SIZE_OPTIONS = ['', '1', '2', '4', '8', '10'];
+const JOB_POLL_INTERVAL_MS = 1500;
+
+const CONTENT_TYPE_LABELS: Record<ContentType, string> = {
+  error: 'Error',
+  code: 'Code',
+  terminal: 'Terminal',
+  receipt: 'Receipt',
+  chat: 'Chat',
+  web_page: 'Web page'
+};
+
+const PARSE_STATUS_BADGES: Record<ParseStatus, { label: string; className: string } | null> = {
+  parsed: null,
+  repaired: { label: 'Repaired answer', className: 'bg-yellow-100 text-yellow-800' },
+  fallback: { label: 'Placeholder - model answer unusable', className: 'bg-gray-200 text-gray-700' }
+};
 
 interface AnalysisResult {
   index: number;
@@ -8,35 +91,167 @@ interface AnalysisResult {
     content: string;
     category: string;
     extracted_text: string;
+    main_theme?: string;
+    tags?: string[];
+    content_type?: ContentType;
+    details?: ContentDetails;
+    transcript?: Transcript;
     confidence: number;
   };
-  status: string;
+  status: ResultStatus;
+  parseStatus?: ParseStatus;
+  categorizedBy?: 'rule' | 'model';
+  fileType?: 'image' | 'pdf';
+  fileName?: string;
+  hash?: string;
+  cached?: boolean;
+  metadata?: CaptureMetadata;
+  duplicate?: DuplicateInfo;
+  sensitivity?: SensitivityReport;
+  usage?: TokenUsage;
   error?: string;
 }
 
+const THUMBNAIL_WIDTH = 320;
+
+// JPEG preview for the Markdown index; formats the browser cannot decode
+// (HEIC, PDF) get none
+async function createThumbnail(file: Blob): Promise<Blob | null> {
+  if (!file.type.startsWith('image/')) return null;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_WIDTH / bitmap.width);
+    const canvas = new OffscreenCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 });
+  } catch {
+    return null;
+  }
+}
+
+// The API's own message (e.g. which file is over the size limit) when it sent one
+async function responseError(response: Response) {
+  const body = await response.json().catch(() => null);
+  return new Error(body?.error || `HTTP error! status: ${response.status}`);
+}
+
+// Sensitive regions are covered by the server (sharp); null when the file
+// cannot be redacted and has to be left out of the ZIP
+async function redactUpload(file: File, regions: SensitiveRegion[], mode: Exclude<RedactionMode, 'off'>): Promise<Blob | null> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('regions', JSON.stringify(regions));
+  const response = await fetch(`/api/redact?mode=${mode}`, { method: 'POST', body: formData });
+  if (response.status === 422) return null;
+  if (!response.ok) throw new Error(`Redaction failed with status ${response.status}`);
+  return response.blob();
+}
+
 export default function Home() {
   const [files, setFiles] = useState<File[]>([]);
   const [processing, setProcessing] = useState(false);
   const [results, setResults] = useState<AnalysisResult[]>([]);
-  const [categories, setCategories] = useState<Record<string, { description: string; images: number[] }>>({});
+  const [categories, setCategories] = useState<CategoryMap>({});
   const [dragOver, setDragOver] = useState(false);
   const [downloading, setDownloading] = useState(false);
   const [userPrompt, setUserPrompt] = useState('');
+  const [progress, setProgress] = useState<{ processed: number; total: number } | null>(null);
+  // Phase-1 analyses that have arrived before the final categorized results
+  const [liveAnalyses, setLiveAnalyses] = useState<ImageAnalysis[]>([]);
+  const [noCache, setNoCache] = useState(false);
+  const [transcribe, setTranscribe] = useState(false);
+  const [nameTemplate, setNameTemplate] = useState(DEFAULT_NAME_TEMPLATE);
+  const [duplicateMode, setDuplicateMode] = useState<DuplicateExportMode>('all');
+  const [redactionMode, setRedactionMode] = useState<RedactionMode>('off');
+  const [redactionLevel, setRedactionLevel] = useState<RedactionLevel>(DEFAULT_REDACTION_LEVEL);
+  const [writeMetadata, setWriteMetadata] = useState(false);
+  // Images ticked in the categories panel, used by "split"
+  const [selectedImages, setSelectedImages] = useState<Set<number>>(new Set());
+  const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(new Set());
+  const [recategorizing, setRecategorizing] = useState(false);
+  const [retrying, setRetrying] = useState(false);
+  const [cacheStats, setCacheStats] = useState<{ hits: number; misses: number } | null>(null);
+  const [batchSize, setBatchSize] = useState('');
+  // Token usage of the analysis run the results came from
+  const [runUsage, setRunUsage] = useState<RunUsage | null>(null);
+  const [profiles, setProfiles] = useState<OrganizationProfile[]>([]);
+  const [profileId, setProfileId] = useState('');
+  // Category paths from an uploaded folder structure, to file new images into
+  const [existingFolders, setExistingFolders] = useState<string[]>([]);
+  const [reuseCategories, setReuseCategories] = useState(false);
+  const [resultFilters, setResultFilters] = useState<ResultFilters>({ tags: [] });
+
+  const loadProfiles = async () => {
+    try {
+      const response = await fetch('/api/profiles');
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const data = await response.json();
+      setProfiles(data.profiles || []);
+    } catch (error) {
+      console.error('Error loading profiles:', error);
+    }
+  };
+
+  useEffect(() => {
+    void loadProfiles();
+  }, []);
+
+  // A profile brings its own filename template; instructions stay server-side
+  const selectProfile = (id: string) => {
+    setProfileId(id);
+    const profile = profiles.find(p => p.id === id);
+    setNameTemplate(profile?.nameTemplate || DEFAULT_NAME_TEMPLATE);
+  };
+
+  // Saves the current categories as a fixed taxonomy, together with the
+  // filename template and custom instructions
+  const saveAsProfile = async () => {
+    const name = window.prompt('Profile name:');
+    if (!name?.trim()) return;
+
+    const current = profiles.find(p => p.id === profileId);
+    try {
+      const response = await fetch('/api/profiles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          taxonomy: Object.entries(categories)
+            .filter(([categoryName]) => categoryName !== UNCATEGORIZED)
+            .map(([categoryName, info]) => ({ name: categoryName, description: info.description })),
+          nameTemplate,
+          instructions: userPrompt.trim() || undefined,
+          rules: current?.rules ?? []
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error([data.error, ...(data.details || [])].join('\n'));
+      }
+      await loadProfiles();
+      setProfileId(data.profile.id);
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      alert(`Error saving profile. ${error instanceof Error ? error.message : ''}`);
+    }
+  };
 
   const handleFiles = (selectedFiles: FileList | File[]) => {
     const fileArray = Array.from(selectedFiles);
     const allowedFiles = fileArray.filter(file => 
-      file.type.startsWith('image/') || file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.heic')
+      file.type.startsWith('image/') || file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf') || file.name.toLowerCase().endsWith('.heic')
     );
     
-    if (allowedFiles.length > 10) {
-      alert('Maximum 10 files allowed');
-      return;
-    }
-    
     setFiles(allowedFiles);
     setResults([]);
     setCategories({});
+    setCacheStats(null);
+    setRunUsage(null);
+    setSelectedImages(new Set());
+    setResultFilters({ tags: [] });
   };
 
   const handleDrop = (e: React.DragEvent) => {
@@ -71,6 +286,7 @@ export default function Home() {
       // Add all files to FormData
       files.forEach((file, index) => {
         formData.append('files', file);
+        formData.append('lastModified', String(file.lastModified));
       });
       
       // Add user prompt if provided
@@ -78,36 +294,320 @@ export default function Home() {
         formData.append('userPrompt', userPrompt.trim());
       }
       
-      console.log('Sending files via FormData');
+      if (profileId) {
+        formData.append('profileId', profileId);
+      }
       
-      // Send to API with FormData (no Content-Type header needed - browser will set it)
-      const response = await fetch('/api/analyze', {
-        method: 'POST',
-        body: formData, // Send FormData directly
-      });
+      if (noCache) {
+        formData.append('noCache', '1');
+      }
       
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      if (batchSize) {
+        formData.append('batchSize', batchSize);
+      }
+
+      if (transcribe) {
+        formData.append('transcribe', '1');
+      }
+
+      if (existingFolders.length > 0) {
+        formData.append('existingCategories', JSON.stringify(existingFolders));
+      }
+
+      if (reuseCategories) {
+        formData.append('reuseCategories', '1');
       }
       
-      const data = await response.json();
+      console.log('Sending files via FormData');
+      
+      const data = files.length > MAX_INLINE_FILES
+        ? await runAnalysisJob(formData)
+        : await runInlineAnalysis(formData);
       setResults(data.results);
       setCategories(data.categories || {});
+      setCacheStats(data.cache || null);
+      setRunUsage(data.usage || null);
       
     } catch (error) {
       console.error('Error processing images:', error);
-      alert('Error processing images. Please try again.');
+      alert(`Error processing images. ${error instanceof Error ? error.message : 'Please try again.'}`);
     } finally {
       setProcessing(false);
+      setProgress(null);
+      setLiveAnalyses([]);
+    }
+  };
+
+  const runInlineAnalysis = async (formData: FormData) => {
+    // Send to API with FormData (no Content-Type header needed - browser will set it)
+    const response = await fetch('/api/analyze?stream=1', {
+      method: 'POST',
+      body: formData, // Send FormData directly
+    });
+    
+    if (!response.ok || !response.body) {
+      throw await responseError(response);
+    }
+    
+    // The response is NDJSON: one event per line, ending with the categories event
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffered = '';
+    let processed = 0;
+    
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      
+      buffered += value;
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+      
+      for (const line of lines.filter(Boolean)) {
+        const event = JSON.parse(line);
+        if (event.type === 'start') {
+          setProgress({ processed: 0, total: event.total });
+        } else if (event.type === 'analysis') {
+          processed++;
+          setLiveAnalyses(previous => [...previous, event.analysis]);
+          setProgress(previous => previous && { ...previous, processed });
+        } else if (event.type === 'categories') {
+          return event;
+        } else if (event.type === 'error') {
+          throw new Error(event.error);
+        }
+      }
+    }
+    
+    throw new Error('Analysis stream ended before categories were created');
+  };
+
+  const runAnalysisJob = async (formData: FormData) => {
+    const response = await fetch('/api/jobs', { method: 'POST', body: formData });
+    if (!response.ok) {
+      throw await responseError(response);
+    }
+    
+    const { id, total } = await response.json();
+    setProgress({ processed: 0, total });
+    
+    while (true) {
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      const statusResponse = await fetch(`/api/jobs/${id}`);
+      if (!statusResponse.ok) {
+        throw new Error(`HTTP error! status: ${statusResponse.status}`);
+      }
+      
+      const job = await statusResponse.json();
+      setProgress({ processed: job.processed, total: job.total });
+      setLiveAnalyses(job.analyses);
+      if (job.status === 'completed') return job;
+      if (job.status === 'failed') throw new Error(job.error || 'Analysis job failed');
+    }
+  };
+
+  const applyCategoryEdit = (edit: (state: CategoryState<AnalysisResult>) => CategoryState<AnalysisResult>) => {
+    const next = edit({ results, categories });
+    setResults(next.results);
+    setCategories(next.categories);
+    setSelectedImages(new Set());
+  };
+
+  // Whether the subcategories of `name` stay within the depth limit when it moves to `target`
+  const fitsUnder = (name: string, target: string) => {
+    const deepest = Math.max(...Object.keys(categories).filter(path => isWithinCategory(path, name)).map(categoryDepth));
+    if (categoryDepth(target) + deepest - categoryDepth(name) <= MAX_CATEGORY_DEPTH) return true;
+    alert(`Categories nest at most ${MAX_CATEGORY_DEPTH} levels deep; "${name}" has subcategories that would go deeper.`);
+    return false;
+  };
+
+  const handleRenameCategory = (name: string) => {
+    const newName = normalizeCategoryName(prompt('New category name ("/" nests it, e.g. finance/receipts)', name) || '');
+    if (newName && fitsUnder(name, newName)) applyCategoryEdit(state => renameCategory(state, name, newName));
+  };
+
+  const handleMergeCategory = (name: string, target: string) => {
+    if (fitsUnder(name, target)) applyCategoryEdit(state => mergeCategories(state, name, target));
+  };
+
+  const handleSplitCategory = () => {
+    const newName = normalizeCategoryName(prompt('Name for the new category ("/" nests it, e.g. finance/receipts)') || '');
+    if (!newName) return;
+    const description = prompt('Description (optional)') || '';
+    applyCategoryEdit(state => splitCategory(state, [...selectedImages], newName, description));
+  };
+
+  const handleDeleteCategory = (name: string) => {
+    if (confirm(`Delete "${name}" and its subcategories? Their images become uncategorized.`)) {
+      applyCategoryEdit(state => deleteCategory(state, name));
+    }
+  };
+
+  const toggleCollapsedCategory = (path: string) => {
+    setCollapsedCategories(previous => {
+      const next = new Set(previous);
+      if (next.has(path)) next.delete(path); else next.add(path);
+      return next;
+    });
+  };
+
+  const toggleSelectedImage = (index: number) => {
+    setSelectedImages(previous => {
+      const next = new Set(previous);
+      if (next.has(index)) next.delete(index); else next.add(index);
+      return next;
+    });
+  };
+
+  // The phase-1 fields of a result, as /api/categorize takes them back
+  const toAnalysis = (result: AnalysisResult) => ({
+    index: result.index,
+    content: result.analysis.content,
+    extracted_text: result.analysis.extracted_text,
+    main_theme: result.analysis.main_theme || 'misc',
+    tags: result.analysis.tags ?? [],
+    content_type: result.analysis.content_type,
+    details: result.analysis.details,
+    transcript: result.analysis.transcript,
+    confidence: result.analysis.confidence,
+    fileName: result.fileName || files[result.index]?.name || `file_${result.index + 1}`,
+    fileType: result.fileType,
+    parseStatus: result.parseStatus,
+    status: result.status,
+    error: result.error,
+    hash: result.hash,
+    cached: result.cached,
+    metadata: result.metadata,
+    duplicate: result.duplicate,
+    sensitivity: result.sensitivity,
+    usage: result.usage
+  });
+
+  // Runs phase 2 over `analyses` and shows the new categories
+  const categorize = async (analyses: object[]) => {
+    const response = await fetch('/api/categorize', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        analyses,
+        userPrompt: userPrompt.trim() || undefined,
+        profileId: profileId || undefined,
+        existingCategories: existingFolders.length > 0 ? existingFolders : undefined,
+        reuseCategories: reuseCategories || undefined
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    
+    const data = await response.json();
+    setResults(data.results);
+    setCategories(data.categories || {});
+    setSelectedImages(new Set());
+    return data;
+  };
+
+  // Re-runs only phase 2 on the analyses we already have
+  const recategorize = async () => {
+    if (results.length === 0) return;
+    
+    setRecategorizing(true);
+    try {
+      await categorize(results.map(toAnalysis));
+    } catch (error) {
+      console.error('Error re-categorizing:', error);
+      alert('Error re-running categorization. Please try again.');
+    } finally {
+      setRecategorizing(false);
+    }
+  };
+
+  // Analyzes only the failed files again, then re-runs phase 2 over the whole batch
+  const retryFailed = async () => {
+    const failed = results.filter(result => result.status === 'failed' && files[result.index]);
+    if (failed.length === 0) return;
+    
+    setRetrying(true);
+    try {
+      const retried = new Map<number, ImageAnalysis>();
+      let usage = runUsage;
+      // /api/analyze takes at most MAX_INLINE_FILES files per request
+      for (let start = 0; start < failed.length; start += MAX_INLINE_FILES) {
+        const chunk = failed.slice(start, start + MAX_INLINE_FILES);
+        const formData = new FormData();
+        chunk.forEach(result => {
+          formData.append('files', files[result.index]);
+          formData.append('lastModified', String(files[result.index].lastModified));
+        });
+        if (batchSize) {
+          formData.append('batchSize', batchSize);
+        }
+        if (transcribe) {
+          formData.append('transcribe', '1');
+        }
+        
+        const response = await fetch('/api/analyze?phase=analysis', { method: 'POST', body: formData });
+        if (!response.ok) {
+          throw await responseError(response);
+        }
+        const data = await response.json();
+        // Indexes in the response are positions within this chunk
+        for (const analysis of data.analyses as ImageAnalysis[]) {
+          const index = chunk[analysis.index].index;
+          const duplicate = analysis.duplicate && { ...analysis.duplicate, of: chunk[analysis.duplicate.of].index };
+          retried.set(index, { ...analysis, index, duplicate });
+        }
+        usage = combineRunUsage(usage, data.usage);
+      }
+      
+      const data = await categorize(results.map(result => retried.get(result.index) ?? toAnalysis(result)));
+      setRunUsage(combineRunUsage(usage, data.usage));
+    } catch (error) {
+      console.error('Error retrying failed items:', error);
+      alert(`Error retrying failed items. ${error instanceof Error ? error.message : 'Please try again.'}`);
+    } finally {
+      setRetrying(false);
     }
   };
 
-  const generateFileName = (file: File, analysis: AnalysisResult['analysis']) => {
-    const date = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-    const extension = file.name.split('.').pop();
-    return `${analysis.content}_${date}.${extension}`;
+  const clearAnalysisCache = async () => {
+    try {
+      const response = await fetch('/api/cache', { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const { removed } = await response.json();
+      alert(`Cleared ${removed} cached analyses.`);
+    } catch (error) {
+      console.error('Error clearing cache:', error);
+      alert('Error clearing the analysis cache. Please try again.');
+    }
   };
 
+  const copyTranscript = async (transcript: Transcript) => {
+    try {
+      await navigator.clipboard.writeText(transcript.text);
+    } catch (error) {
+      console.error('Error copying transcript:', error);
+      alert('Could not copy the transcript. Select the text and copy it instead.');
+    }
+  };
+
+  const clusters = duplicateClusters(results);
+  const failedResults = results.filter(result => result.status === 'failed');
+  const sensitiveResults = results.filter(result => isSensitive(result.sensitivity));
+  const exportedResults = selectExportedResults(results, files, duplicateMode);
+  const plannedPaths = planExportPaths(exportedResults, files, nameTemplate);
+  const unknownTokens = findUnknownTokens(nameTemplate);
+  // Filters only hide result cards; exports always cover every file
+  const visibleResults = results.filter(result => matchesFilters(result, resultFilters));
+  const facets = facetResults(results, resultFilters);
+  const filtering = resultFilters.tags.length > 0 || Boolean(resultFilters.theme || resultFilters.category);
+
+  const toggleTagFilter = (tag: string) => setResultFilters(filters => ({
+    ...filters,
+    tags: filters.tags.includes(tag) ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag]
+  }));
+
   const downloadOrganizedZip = async () => {
     if (results.length === 0 || files.length === 0) return;
     
@@ -118,29 +618,45 @@ export default function Home() {
       const JSZip = (await import('jszip')).default;
       const zip = new JSZip();
       
-      // Create folders and add files
-      for (const result of results) {
-        if (result.status === 'success' && result.analysis) {
-          const file = files[result.index];
-          if (file) {
-            const folderPath = `${result.analysis.category}`;
-            const fileName = generateFileName(file, result.analysis);
-            
-            // Create folder structure
-            const folder = zip.folder(folderPath);
-            
-            // Convert file to array buffer
-            const fileBuffer = await file.arrayBuffer();
-            
-            // Add file to the folder
-            folder?.file(fileName, fileBuffer);
-          }
+      // Create folders and add files; paths are already unique, so nothing gets overwritten
+      const thumbnails = new Set<number>();
+      const outcomes = new Map<number, RedactionOutcome>();
+      const embedded = writeMetadata ? new Set<number>() : undefined;
+      for (const [index, path] of plannedPaths) {
+        const result = exportedResults.find(r => r.index === index)!;
+        let file: Blob | null = files[index];
+        const regions = exportRedaction(result, redactionMode, redactionLevel);
+        if (regions && redactionMode !== 'off') {
+          file = await redactUpload(files[index], regions, redactionMode);
+          outcomes.set(index, file ? 'applied' : 'omitted');
+          // A flagged file is never exported unredacted
+          if (!file) continue;
+        }
+        const fileBuffer = new Uint8Array(await file.arrayBuffer());
+        const fields = embedded && embeddedFields(result, redactionMode);
+        const withMetadata = fields ? embedMetadata(fileBuffer, fields) : null;
+        if (withMetadata) embedded!.add(index);
+        zip.file(path, withMetadata ?? fileBuffer);
+        const transcript = transcriptFile(result, path, redactionMode);
+        if (transcript) zip.file(transcript.path, transcript.content);
+        const thumbnail = await createThumbnail(file);
+        if (thumbnail) {
+          zip.file(thumbnailPath(path), thumbnail);
+          thumbnails.add(index);
         }
       }
       
-      // Add a summary report
-      const summaryContent = generateSummaryReport();
-      zip.file('analysis_summary.txt', summaryContent);
+      // Add the manifest, CSV and Markdown indexes and the summary report
+      addExportIndexes(zip, buildManifest({
+        results: exportedResults,
+        sources: files,
+        categories,
+        nameTemplate,
+        thumbnails,
+        redaction: { mode: redactionMode, minLevel: redactionLevel, outcomes },
+        embedded,
+        usage: runUsage
+      }));
       
       // Generate ZIP file
       const zipBlob = await zip.generateAsync({ type: 'blob' });
@@ -165,40 +681,6 @@ export default function Home() {
     }
   };
 
-  const generateSummaryReport = () => {
-    const timestamp = new Date().toISOString();
-    const categoryNames = Object.keys(categories);
-    return `Image Analysis Summary
-Generated: ${timestamp}
-
-Total Images Analyzed: ${results.length}
-Categories Created: ${categoryNames.join(', ')}
-
-Category Details:
-${categoryNames.map(catName => {
-  const categoryInfo = categories[catName];
-  return `
-${catName}:
-  Description: ${categoryInfo.description}
-  Images: ${categoryInfo.images.length} files
-`;
-}).join('')}
-
-Detailed Results:
-${results.map((result, index) => {
-  const file = files[result.index];
-  return `
-${index + 1}. ${file?.name}
-   Category: ${result.analysis.category}
-   Content: ${result.analysis.content}
-   Extracted Text: ${result.analysis.extracted_text || 'None'}
-   Confidence: ${result.analysis.confidence}%
-   New Name: ${generateFileName(file, result.analysis)}
-`;
-}).join('')}
-`;
-  };
-
   const ImagePreview = ({ file }: { file: File }) => {
     const [imageError, setImageError] = useState(false);
     const [imageUrl, setImageUrl] = useState<string>('');
@@ -285,12 +767,103 @@ ${index + 1}. ${file?.name}
     );
   };
 
+  // A plain function, not a nested component, so React does not remount the tree on every render
+  const renderCategoryNode = (node: CategoryNode) => {
+    const collapsed = collapsedCategories.has(node.path);
+    return (
+      <div
+        key={node.path}
+        className="bg-indigo-50 rounded-lg p-4 border border-indigo-200"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          // The innermost category under the pointer takes the file
+          e.preventDefault();
+          e.stopPropagation();
+          const index = Number(e.dataTransfer.getData('text/plain'));
+          if (!Number.isNaN(index)) applyCategoryEdit(state => moveImages(state, [index], node.path));
+        }}
+      >
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <button
+            onClick={() => toggleCollapsedCategory(node.path)}
+            className="flex items-center gap-2 text-left font-medium text-indigo-900"
+          >
+            <span className="text-xs text-indigo-500 w-3">{node.children.length > 0 || node.images.length > 0 ? (collapsed ? '▸' : '▾') : ''}</span>
+            {node.name}
+            <span className="text-xs font-normal text-indigo-600">{node.total} images</span>
+            {categories[node.path]?.origin === 'existing' && (
+              <span className="text-xs font-normal bg-green-100 text-green-800 px-2 py-0.5 rounded">reused</span>
+            )}
+            {categories[node.path]?.origin === 'new' && (
+              <span className="text-xs font-normal bg-amber-100 text-amber-800 px-2 py-0.5 rounded">new</span>
+            )}
+          </button>
+          <div className="flex items-center gap-2 text-xs">
+            <button onClick={() => handleRenameCategory(node.path)} className="text-indigo-600 hover:underline">
+              Rename
+            </button>
+            <select
+              value=""
+              onChange={(e) => e.target.value && handleMergeCategory(node.path, e.target.value)}
+              className="bg-transparent text-indigo-600"
+            >
+              <option value="">Merge into…</option>
+              {Object.keys(categories).filter(name => !isWithinCategory(name, node.path)).map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <button onClick={() => handleDeleteCategory(node.path)} className="text-red-600 hover:underline">
+              Delete
+            </button>
+          </div>
+        </div>
+        {node.description && <p className="text-sm text-indigo-700 mb-2">{node.description}</p>}
+        {categories[node.path]?.justification && (
+          <p className="text-xs text-amber-800 mb-2">Why a new category: {categories[node.path].justification}</p>
+        )}
+        {!collapsed && (
+          <>
+            {node.images.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {node.images.map(index => (
+                  <li
+                    key={index}
+                    draggable
+                    onDragStart={(e) => e.dataTransfer.setData('text/plain', String(index))}
+                    className="flex items-center gap-2 text-xs text-gray-700 bg-white rounded px-2 py-1 cursor-move"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedImages.has(index)}
+                      onChange={() => toggleSelectedImage(index)}
+                    />
+                    <span className="truncate">{files[index]?.name ?? `file ${index + 1}`}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {node.children.length > 0 && (
+              <div className="mt-3 ml-3 space-y-3 border-l-2 border-indigo-200 pl-3">
+                {node.children.map(renderCategoryNode)}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-6">
       <div className="max-w-4xl mx-auto">
-        <h1 className="text-4xl font-bold text-center mb-8 text-gray-800">
+        <h1 className="text-4xl font-bold text-center mb-2 text-gray-800">
           📄 Document & Image Organizer
         </h1>
+        <p className="text-center mb-8">
+          <Link href="/search" className="text-indigo-600 hover:text-indigo-800 font-medium">
+            🔎 Search everything organized so far
+          </Link>
+        </p>
         
         {/* Upload Area */}
         <div
@@ -310,7 +883,7 @@ ${index + 1}. ${file?.name}
               Drop files here or click to select
             </div>
             <div className="text-sm text-gray-500">
-              Max 10 files • PNG, JPG, WebP, HEIC supported
+              PNG, JPG, WebP, HEIC and PDF supported • Large batches run in the background
             </div>
             <button className="bg-indigo-600 text-white px-6 py-3 rounded-lg hover:bg-indigo-700 transition-colors">
               Choose Files
@@ -321,7 +894,7 @@ ${index + 1}. ${file?.name}
             id="fileInput"
             type="file"
             multiple
-            accept="image/*,.heic"
+            accept="image/*,.heic,application/pdf,.pdf"
             className="hidden"
             onChange={(e) => e.target.files && handleFiles(e.target.files)}
           />
@@ -329,6 +902,29 @@ ${index + 1}. ${file?.name}
 
         {/* Custom Instructions */}
         <div className="bg-white rounded-xl p-6 mb-8 shadow-lg">
+          <div className="flex items-center gap-3 mb-4">
+            <label htmlFor="profileSelect" className="text-sm font-medium text-gray-700">
+              Profile
+            </label>
+            <select
+              id="profileSelect"
+              value={profileId}
+              onChange={(e) => selectProfile(e.target.value)}
+              className="flex-1 p-2 border border-gray-200 rounded-lg text-sm text-gray-700"
+            >
+              <option value="">None - let the AI choose categories</option>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}{profile.builtIn ? ' (built-in)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+          {profileId && (
+            <p className="text-xs text-gray-500 mb-4">
+              {profiles.find(p => p.id === profileId)?.description || 'Files are sorted into this profile\'s categories.'}
+            </p>
+          )}
           <h3 className="text-lg font-semibold mb-4 text-gray-800">
             📝 Custom Instructions (Optional)
           </h3>
@@ -343,26 +939,122 @@ ${index + 1}. ${file?.name}
             className="w-full h-32 p-4 border border-gray-200 rounded-lg resize-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-sm text-gray-700"
           />
           <p className="text-xs text-gray-500 mt-2">
-            These instructions will guide how the AI analyzes and categorizes your files.
+            These instructions will guide how the AI categorizes your files. Changing them only re-runs
+            categorization; images that were already analyzed are answered from the cache.
           </p>
+          <div className="flex items-center justify-between mt-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={noCache}
+                onChange={(e) => setNoCache(e.target.checked)}
+              />
+              Re-analyze images instead of using cached results
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={transcribe}
+                onChange={(e) => setTranscribe(e.target.checked)}
+              />
+              📝 Transcribe code, terminal and error screenshots
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Images per model request
+              <select
+                value={batchSize}
+                onChange={(e) => setBatchSize(e.target.value)}
+                className="p-1 border border-gray-200 rounded-lg"
+              >
+                {BATCH_SIZE_OPTIONS.map(option => (
+                  <option key={option} value={option}>{option || 'Server default'}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="button"
+              onClick={clearAnalysisCache}
+              className="text-xs text-indigo-600 hover:text-indigo-800 underline"
+            >
+              Clear analysis cache
+            </button>
+          </div>
+          <div className="mt-4 p-3 bg-gray-50 rounded-lg">
+            <h4 className="text-sm font-medium text-gray-800 mb-2">♻️ Existing categories</h4>
+            <div className="flex items-center gap-4 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={reuseCategories}
+                  onChange={(e) => setReuseCategories(e.target.checked)}
+                />
+                Reuse categories from earlier runs
+              </label>
+              <label className="text-xs bg-white border border-indigo-300 text-indigo-700 px-3 py-1 rounded hover:bg-indigo-50 cursor-pointer">
+                📁 Use a folder structure
+                <input
+                  type="file"
+                  className="hidden"
+                  {...{ webkitdirectory: '' }}
+                  onChange={(e) => {
+                    const paths = Array.from(e.target.files ?? []).map(file => file.webkitRelativePath);
+                    setExistingFolders(foldersFromPaths(paths).slice(0, MAX_EXISTING_CATEGORIES));
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              {existingFolders.length > 0 && (
+                <span className="text-xs text-gray-600">
+                  {existingFolders.length} folders{' '}
+                  <button onClick={() => setExistingFolders([])} className="text-indigo-600 hover:underline">
+                    Clear
+                  </button>
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              New images go into these categories first; a new category is only proposed when none fits, with the
+              reason. Only the folder names are read, no files are uploaded.
+            </p>
+          </div>
         </div>
 
         {/* Categories Overview */}
         {Object.keys(categories).length > 0 && (
           <div className="bg-white rounded-xl p-6 mb-8 shadow-lg">
-            <h3 className="text-lg font-semibold mb-4 text-gray-800">
-              🗂️ Smart Categories Created
-            </h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {Object.entries(categories).map(([categoryName, categoryInfo]) => (
-                <div key={categoryName} className="bg-indigo-50 rounded-lg p-4 border border-indigo-200">
-                  <h4 className="font-medium text-indigo-900 mb-2">{categoryName}</h4>
-                  <p className="text-sm text-indigo-700 mb-2">{categoryInfo.description}</p>
-                  <span className="text-xs text-indigo-600">
-                    {categoryInfo.images?.length || 0} images
-                  </span>
-                </div>
-              ))}
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-800">
+                🗂️ Smart Categories Created
+              </h3>
+              <div className="flex items-center gap-2">
+                {selectedImages.size > 0 && (
+                  <button
+                    onClick={handleSplitCategory}
+                    className="text-xs bg-indigo-600 text-white px-3 py-1 rounded hover:bg-indigo-700"
+                  >
+                    Split {selectedImages.size} selected into new category
+                  </button>
+                )}
+                <button
+                  onClick={recategorize}
+                  disabled={recategorizing || retrying || processing}
+                  className="text-xs bg-white border border-indigo-300 text-indigo-700 px-3 py-1 rounded hover:bg-indigo-50 disabled:opacity-50"
+                >
+                  {recategorizing ? 'Re-categorizing...' : '🔄 Re-categorize with current instructions'}
+                </button>
+                <button
+                  onClick={saveAsProfile}
+                  className="text-xs bg-white border border-indigo-300 text-indigo-700 px-3 py-1 rounded hover:bg-indigo-50"
+                >
+                  💾 Save as profile
+                </button>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mb-4">
+              Drag files between categories, or tick files and split them into a new category.
+            </p>
+            <div className="space-y-3">
+              {buildCategoryTree(categories).map(renderCategoryNode)}
             </div>
           </div>
         )}
@@ -371,7 +1063,7 @@ ${index + 1}. ${file?.name}
         {files.length > 0 && (
           <div className="bg-white rounded-xl p-6 mb-8 shadow-lg">
             <h3 className="text-lg font-semibold mb-4 text-gray-800">
-              Selected Files ({files.length}/10)
+              Selected Files ({files.length})
             </h3>
             <div className="space-y-2">
               {files.map((file, index) => (
@@ -406,6 +1098,21 @@ ${index + 1}. ${file?.name}
           <div className="bg-white rounded-xl p-8 text-center shadow-lg mb-8">
             <div className="animate-spin w-12 h-12 border-4 border-indigo-200 border-t-indigo-600 rounded-full mx-auto mb-4"></div>
             <p className="text-gray-600">AI is analyzing your files...</p>
+            {progress && (
+              <div className="mt-4">
+                <div className="w-full h-2 bg-indigo-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-600 transition-all duration-300"
+                    style={{ width: `${progress.total ? (progress.processed / progress.total) * 100 : 0}%` }}
+                  />
+                </div>
+                <p className="text-sm text-gray-500 mt-2">
+                  {progress.processed < progress.total
+                    ? `Analyzed ${progress.processed} of ${progress.total} files`
+                    : 'Creating categories...'}
+                </p>
+              </div>
+            )}
             {userPrompt.trim() && (
               <p className="text-sm text-indigo-600 mt-2">
                 🎯 Using your custom instructions
@@ -414,6 +1121,22 @@ ${index + 1}. ${file?.name}
           </div>
         )}
 
+        {/* Analyses received so far */}
+        {processing && liveAnalyses.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+            {liveAnalyses.map(analysis => (
+              <div key={analysis.index} className="bg-white rounded-xl p-4 shadow flex items-start gap-4">
+                {files[analysis.index] && <ImagePreview file={files[analysis.index]} />}
+                <div className="flex-1 min-w-0 text-sm text-gray-600 space-y-1">
+                  <p className="font-medium text-gray-800 truncate">{analysis.content}</p>
+                  <p className="truncate">{analysis.extracted_text || 'No text found'}</p>
+                  <p className="text-xs text-gray-400">{analysis.fileName} • {analysis.confidence}%</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Results */}
         {results.length > 0 && (
           <div className="space-y-4">
@@ -421,17 +1144,116 @@ ${index + 1}. ${file?.name}
               <h2 className="text-2xl font-bold text-gray-800">
                 📋 Analysis Results
               </h2>
-              {userPrompt.trim() && (
-                <div className="bg-indigo-50 border border-indigo-200 rounded-lg px-3 py-1">
-                  <span className="text-xs text-indigo-700">
-                    🎯 Custom instructions applied
-                  </span>
-                </div>
-              )}
+              <div className="flex items-center gap-2">
+                {cacheStats && cacheStats.hits > 0 && (
+                  <div className="bg-green-50 border border-green-200 rounded-lg px-3 py-1">
+                    <span className="text-xs text-green-700">
+                      ⚡ {cacheStats.hits} of {cacheStats.hits + cacheStats.misses} from cache
+                    </span>
+                  </div>
+                )}
+                {runUsage && (
+                  <div className="bg-gray-50 border border-gray-200 rounded-lg px-3 py-1" title={`Analysis: ${describeUsage(runUsage.analysis)}\nCategorization: ${describeUsage(runUsage.categorization)}`}>
+                    <span className="text-xs text-gray-700">
+                      🪙 {describeUsage(runUsage.total)}
+                    </span>
+                  </div>
+                )}
+                {userPrompt.trim() && (
+                  <div className="bg-indigo-50 border border-indigo-200 rounded-lg px-3 py-1">
+                    <span className="text-xs text-indigo-700">
+                      🎯 Custom instructions applied
+                    </span>
+                  </div>
+                )}
+              </div>
             </div>
             
-            {results.map((result, index) => (
-              <div key={index} className="bg-white rounded-xl p-6 shadow-lg border-l-4 border-indigo-500">
+            {failedResults.length > 0 && (
+              <div className="flex items-center justify-between bg-red-50 border border-red-200 rounded-lg px-4 py-3">
+                <p className="text-sm text-red-700">
+                  ⚠️ {failedResults.length} of {results.length} files could not be analyzed. The others are kept; retrying only sends these again.
+                </p>
+                <button
+                  onClick={retryFailed}
+                  disabled={retrying || processing || recategorizing}
+                  className="text-xs bg-white border border-red-300 text-red-700 px-3 py-1 rounded hover:bg-red-100 disabled:opacity-50"
+                >
+                  {retrying ? 'Retrying...' : '🔁 Retry failed items'}
+                </button>
+              </div>
+            )}
+            
+            {(facets.tags.length > 0 || filtering) && (
+              <div className="bg-white rounded-xl p-4 shadow-lg space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-gray-800">
+                    🏷️ Filter by topic {filtering && <span className="font-normal text-gray-500">({visibleResults.length} of {results.length} files)</span>}
+                  </h3>
+                  {filtering && (
+                    <button
+                      onClick={() => setResultFilters({ tags: [] })}
+                      className="text-xs text-indigo-600 hover:underline"
+                    >
+                      Clear filters
+                    </button>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2 items-center">
+                  <span className="text-xs text-gray-500 w-20">Tags</span>
+                  {resultFilters.tags.filter(tag => !facets.tags.some(facet => facet.name === tag)).map(tag => (
+                    <button key={tag} onClick={() => toggleTagFilter(tag)} className="px-3 py-1 rounded-full text-xs bg-indigo-600 text-white">
+                      #{tag} (0)
+                    </button>
+                  ))}
+                  {facets.tags.map(({ name, count }) => (
+                    <button
+                      key={name}
+                      onClick={() => toggleTagFilter(name)}
+                      className={`px-3 py-1 rounded-full text-xs ${resultFilters.tags.includes(name) ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-800 hover:bg-indigo-100'}`}
+                    >
+                      #{name} ({count})
+                    </button>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-4">
+                  <label className="flex items-center gap-2 text-xs text-gray-500">
+                    Theme
+                    <select
+                      value={resultFilters.theme ?? ''}
+                      onChange={(e) => setResultFilters(filters => ({ ...filters, theme: e.target.value || undefined }))}
+                      className="p-1 border border-gray-300 rounded text-xs text-gray-800"
+                    >
+                      <option value="">Any</option>
+                      {facets.themes.map(({ name, count }) => (
+                        <option key={name} value={name}>{name} ({count})</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-gray-500">
+                    Category
+                    <select
+                      value={resultFilters.category ?? ''}
+                      onChange={(e) => setResultFilters(filters => ({ ...filters, category: e.target.value || undefined }))}
+                      className="p-1 border border-gray-300 rounded text-xs text-gray-800"
+                    >
+                      <option value="">Any</option>
+                      {facets.categories.map(({ name, count }) => (
+                        <option key={name} value={name}>{name} ({count})</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+              </div>
+            )}
+            
+            {visibleResults.map(result => (
+              <div
+                key={result.index}
+                draggable
+                onDragStart={(e) => e.dataTransfer.setData('text/plain', String(result.index))}
+                className="bg-white rounded-xl p-6 shadow-lg border-l-4 border-indigo-500"
+              >
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
                     <h3 className="font-semibold text-lg text-gray-800 mb-2">
@@ -440,16 +1262,88 @@ ${index + 1}. ${file?.name}
                     
                     <div className="space-y-2 text-sm text-gray-600">
                       <p><strong>Original:</strong> {files[result.index]?.name}</p>
-                      <p><strong>Suggested:</strong> {generateFileName(files[result.index], result.analysis)}</p>
+                      <p><strong>Suggested:</strong> {plannedPaths.get(result.index)?.split('/').pop()}</p>
                       <p><strong>Content:</strong> {result.analysis.content}</p>
+                      {result.analysis.main_theme && (
+                        <p><strong>Theme:</strong> {result.analysis.main_theme}</p>
+                      )}
                       <p><strong>Extracted Text:</strong> {result.analysis.extracted_text || 'None'}</p>
+                      {describeDetails(result.analysis.details).length > 0 && (
+                        <div className="bg-indigo-50 border border-indigo-100 rounded-lg p-3">
+                          <p className="text-xs text-indigo-700 mb-1">🔎 {CONTENT_TYPE_LABELS[result.analysis.details!.type]} details</p>
+                          {describeDetails(result.analysis.details).map(({ label, value }) => (
+                            <p key={label} className="break-words"><strong>{label}:</strong> {value}</p>
+                          ))}
+                        </div>
+                      )}
+                      {result.analysis.transcript && (
+                        <details className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+                          <summary className="text-xs text-gray-700 cursor-pointer">
+                            📝 Transcript{result.analysis.transcript.language ? ` (${result.analysis.transcript.language})` : ''}
+                          </summary>
+                          <button
+                            type="button"
+                            onClick={() => copyTranscript(result.analysis.transcript!)}
+                            className="text-xs text-indigo-600 hover:text-indigo-800 underline mt-2"
+                          >
+                            Copy
+                          </button>
+                          <pre className="mt-2 max-h-64 overflow-auto text-xs whitespace-pre bg-white border border-gray-100 rounded p-2">
+                            {result.analysis.transcript.text}
+                          </pre>
+                        </details>
+                      )}
                       <p><strong>Confidence:</strong> {result.analysis.confidence}%</p>
+                      <p><strong>Captured:</strong> {describeCapture(result.metadata)}</p>
+                      {runUsage && (
+                        <p><strong>Model usage:</strong> {describeUsage(result.usage)}</p>
+                      )}
                     </div>
                     
                     <div className="flex flex-wrap gap-2 mt-3">
                       <span className="bg-indigo-100 text-indigo-800 px-3 py-1 rounded-full text-xs">
                         {result.analysis.category}
                       </span>
+                      {result.analysis.tags?.map(tag => (
+                        <button
+                          key={tag}
+                          onClick={() => toggleTagFilter(tag)}
+                          title={resultFilters.tags.includes(tag) ? 'Remove this filter' : 'Show only files with this tag'}
+                          className={`px-3 py-1 rounded-full text-xs ${resultFilters.tags.includes(tag) ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                        >
+                          #{tag}
+                        </button>
+                      ))}
+                      {result.status === 'failed' && (
+                        <span className="bg-red-100 text-red-800 px-3 py-1 rounded-full text-xs">
+                          Analysis failed
+                        </span>
+                      )}
+                      {result.status !== 'failed' && result.parseStatus && PARSE_STATUS_BADGES[result.parseStatus] && (
+                        <span className={`px-3 py-1 rounded-full text-xs ${PARSE_STATUS_BADGES[result.parseStatus]!.className}`}>
+                          {PARSE_STATUS_BADGES[result.parseStatus]!.label}
+                        </span>
+                      )}
+                      {result.categorizedBy === 'rule' && (
+                        <span className="bg-green-100 text-green-800 px-3 py-1 rounded-full text-xs">
+                          Filed by rule
+                        </span>
+                      )}
+                      {result.fileType === 'pdf' && (
+                        <span className="bg-red-100 text-red-700 px-3 py-1 rounded-full text-xs">
+                          PDF
+                        </span>
+                      )}
+                      {result.duplicate && (
+                        <span className="bg-orange-100 text-orange-800 px-3 py-1 rounded-full text-xs">
+                          {result.duplicate.kind === 'exact' ? 'Copy' : 'Near copy'} of {files[result.duplicate.of]?.name}
+                        </span>
+                      )}
+                      {isSensitive(result.sensitivity) && (
+                        <span className={`px-3 py-1 rounded-full text-xs ${result.sensitivity!.level === 'high' ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'}`}>
+                          🔒 Sensitive ({result.sensitivity!.level}): {describeFindings(result.sensitivity)}
+                        </span>
+                      )}
                     </div>
                   </div>
                   
@@ -460,15 +1354,155 @@ ${index + 1}. ${file?.name}
                   </div>
                 </div>
                 
-                {result.status === 'error' && (
-                  <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
-                    <p className="text-red-600 text-sm">Error: {result.error}</p>
+                {result.status !== 'success' && result.error && (
+                  <div className={`mt-4 p-3 rounded-lg border ${result.status === 'failed' ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'}`}>
+                    <p className={`text-sm ${result.status === 'failed' ? 'text-red-600' : 'text-gray-600'}`}>
+                      {result.status === 'failed' ? 'Analysis failed' : 'Placeholder values'}: {result.error}
+                    </p>
                   </div>
                 )}
               </div>
             ))}
             
+            {/* Duplicates */}
+            {clusters.size > 0 && (
+              <div className="bg-white rounded-xl p-6 shadow-lg">
+                <h3 className="text-lg font-semibold mb-2 text-gray-800">
+                  👯 Duplicates
+                </h3>
+                <p className="text-xs text-gray-500 mb-4">
+                  Only the first copy in each group was sent to the model; the others reuse its analysis.
+                </p>
+                <div className="flex gap-4 mb-4 text-sm text-gray-700">
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={duplicateMode === 'all'} onChange={() => setDuplicateMode('all')} />
+                    Keep all copies in the ZIP
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={duplicateMode === 'best'} onChange={() => setDuplicateMode('best')} />
+                    Keep only the best copy (most pixels, then largest file)
+                  </label>
+                </div>
+                <div className="space-y-3">
+                  {[...clusters].map(([representative, members]) => {
+                    const best = bestCopy(members, results, files);
+                    return (
+                      <div key={representative} className="bg-orange-50 rounded-lg p-3 border border-orange-200">
+                        {members.map(index => {
+                          const duplicate = results.find(result => result.index === index)?.duplicate;
+                          const dimensions = results.find(result => result.index === index)?.metadata;
+                          return (
+                            <p key={index} className="text-xs text-gray-700">
+                              {index === best ? '✅' : duplicateMode === 'best' ? '🗑️' : '➕'} {files[index]?.name}
+                              {dimensions?.width && dimensions.height ? ` • ${dimensions.width}×${dimensions.height}` : ''}
+                              {duplicate ? ` • ${duplicate.kind === 'exact' ? 'identical' : `${duplicate.distance} bits different`}` : ' • analyzed'}
+                            </p>
+                          );
+                        })}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+            
+            {/* Sensitive content */}
+            {sensitiveResults.length > 0 && (
+              <div className="bg-white rounded-xl p-6 shadow-lg">
+                <h3 className="text-lg font-semibold mb-2 text-gray-800">
+                  🔒 Sensitive content
+                </h3>
+                <p className="text-xs text-gray-500 mb-4">
+                  {sensitiveResults.length} file{sensitiveResults.length === 1 ? '' : 's'} may show secrets or personal data. Redaction covers the regions the model pointed at in files flagged at the chosen level, or the whole image when a secret was found but not located, and masks secrets in the indexes. Files that cannot be redacted (PDFs, HEIC) are left out of the ZIP.
+                </p>
+                <div className="flex gap-4 mb-4 text-sm text-gray-700">
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={redactionMode === 'off'} onChange={() => setRedactionMode('off')} />
+                    Export as is
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={redactionMode === 'blur'} onChange={() => setRedactionMode('blur')} />
+                    Blur sensitive regions
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={redactionMode === 'black'} onChange={() => setRedactionMode('black')} />
+                    Black them out
+                  </label>
+                  <label className="flex items-center gap-2">
+                    Redact
+                    <select
+                      value={redactionLevel}
+                      onChange={(e) => setRedactionLevel(e.target.value as RedactionLevel)}
+                      className="p-1 border border-gray-200 rounded-lg"
+                    >
+                      <option value="high">🔴 secrets only</option>
+                      <option value="low">🟠 secrets and personal details</option>
+                    </select>
+                  </label>
+                </div>
+                <div className="space-y-1">
+                  {sensitiveResults.map(result => {
+                    const regions = redactionRegions(result.sensitivity, redactionLevel);
+                    return (
+                      <p key={result.index} className="text-xs text-gray-700">
+                        {result.sensitivity!.level === 'high' ? '🔴' : '🟠'} {files[result.index]?.name} • {describeFindings(result.sensitivity)}
+                        {!regions
+                          ? ' • not redacted'
+                          : regions[0].label === WHOLE_IMAGE.label
+                            ? ' • whole image'
+                            : ` • ${regions.length} region${regions.length === 1 ? '' : 's'}`}
+                      </p>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+            
+            {/* File Naming */}
+            <div className="bg-white rounded-xl p-6 shadow-lg">
+              <h3 className="text-lg font-semibold mb-4 text-gray-800">
+                🏷️ File Naming
+              </h3>
+              <input
+                type="text"
+                value={nameTemplate}
+                onChange={(e) => setNameTemplate(e.target.value)}
+                placeholder={DEFAULT_NAME_TEMPLATE}
+                className="w-full p-3 border border-gray-200 rounded-lg font-mono text-sm text-gray-700 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+              <div className="flex flex-wrap gap-2 mt-3">
+                {Object.entries(NAME_TEMPLATE_TOKENS).map(([token, description]) => (
+                  <button
+                    key={token}
+                    type="button"
+                    title={description}
+                    onClick={() => setNameTemplate(template => `${template}{${token}}`)}
+                    className="bg-gray-100 text-gray-700 px-2 py-1 rounded text-xs font-mono hover:bg-gray-200"
+                  >
+                    {`{${token}}`}
+                  </button>
+                ))}
+              </div>
+              {unknownTokens.length > 0 && (
+                <p className="text-xs text-red-600 mt-2">
+                  Unknown tokens: {unknownTokens.map(token => `{${token}}`).join(', ')}
+                </p>
+              )}
+              <div className="mt-4 max-h-48 overflow-y-auto bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500 mb-2">Files in the ZIP (duplicates get _2, _3, ...):</p>
+                {[...plannedPaths].map(([index, path]) => (
+                  <p key={index} className="text-xs font-mono text-gray-700">
+                    {files[index]?.name} → {path}
+                  </p>
+                ))}
+              </div>
+            </div>
+            
             <div className="text-center pt-6">
+              <label className="flex items-center justify-center gap-2 mb-4 text-sm text-gray-700">
+                <input type="checkbox" checked={writeMetadata} onChange={(e) => setWriteMetadata(e.target.checked)} />
+                Write the description, tags and extracted text into each JPEG and PNG, so desktop search finds them
+              </label>
               <button 
                 onClick={downloadOrganizedZip}
                 disabled={downloading}
@@ -0,0 +1,234 @@
+'use client'
+
+import Image from 'next/image'
+import Link from 'next/link'
+import { useEffect, useState } from 'react'
+import { describeCapture } from '@/lib/export'
+import type { LibraryEntry } from '@/lib/types'
+
+const PAGE_SIZE = 48;
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface Facet {
+  name: string;
+  count: number;
+}
+
+interface SearchResponse {
+  total: number;
+  entries: Array<LibraryEntry & { score: number }>;
+  facets: { categories: Facet[]; themes: Facet[] };
+}
+
+interface Filters {
+  q: string;
+  category: string;
+  theme: string;
+  type: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { q: '', category: '', theme: '', type: '', from: '', to: '' };
+
+async function fetchPage(filters: Filters, offset: number): Promise<SearchResponse> {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  const response = await fetch(`/api/search?${params}`);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Search failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+export default function SearchPage() {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const [entries, setEntries] = useState<SearchResponse['entries']>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const page = await fetchPage(filters, 0);
+        if (cancelled) return;
+        setResponse(page);
+        setEntries(page.entries);
+        setError(null);
+      } catch (searchError) {
+        if (!cancelled) setError(searchError instanceof Error ? searchError.message : String(searchError));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [filters]);
+
+  const loadMore = async () => {
+    setLoading(true);
+    try {
+      const page = await fetchPage(filters, entries.length);
+      setEntries(current => [...current, ...page.entries]);
+    } catch (searchError) {
+      setError(searchError instanceof Error ? searchError.message : String(searchError));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clearLibrary = async () => {
+    if (!confirm('Remove every analyzed file from the library? The files themselves are not touched.')) return;
+    try {
+      const result = await fetch('/api/library', { method: 'DELETE' });
+      if (!result.ok) throw new Error(`Clearing failed with status ${result.status}`);
+      setFilters({ ...EMPTY_FILTERS });
+    } catch (clearError) {
+      console.error('Error clearing the library:', clearError);
+      alert('Error clearing the library. Please try again.');
+    }
+  };
+
+  const updateFilter = (key: keyof Filters, value: string) => setFilters(current => ({ ...current, [key]: value }));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-6">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-4xl font-bold text-gray-800">
+            🔎 Library
+          </h1>
+          <Link href="/" className="text-indigo-600 hover:text-indigo-800 font-medium">
+            ← Organize new files
+          </Link>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-xl p-6 mb-8 shadow-lg space-y-4">
+          <input
+            type="search"
+            value={filters.q}
+            onChange={(e) => updateFilter('q', e.target.value)}
+            placeholder='Search text, content and categories, e.g. invoice "net pay"'
+            className="w-full p-3 border border-gray-200 rounded-lg text-gray-700 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm text-gray-700">
+            <select value={filters.category} onChange={(e) => updateFilter('category', e.target.value)} className="p-2 border border-gray-200 rounded-lg">
+              <option value="">All categories</option>
+              {response?.facets.categories.map(facet => (
+                <option key={facet.name} value={facet.name}>{facet.name} ({facet.count})</option>
+              ))}
+            </select>
+            <select value={filters.theme} onChange={(e) => updateFilter('theme', e.target.value)} className="p-2 border border-gray-200 rounded-lg">
+              <option value="">All themes</option>
+              {response?.facets.themes.map(facet => (
+                <option key={facet.name} value={facet.name}>{facet.name} ({facet.count})</option>
+              ))}
+            </select>
+            <select value={filters.type} onChange={(e) => updateFilter('type', e.target.value)} className="p-2 border border-gray-200 rounded-lg">
+              <option value="">Images and PDFs</option>
+              <option value="image">Images</option>
+              <option value="pdf">PDFs</option>
+            </select>
+            <label className="flex items-center gap-2">
+              From
+              <input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} className="flex-1 p-2 border border-gray-200 rounded-lg" />
+            </label>
+            <label className="flex items-center gap-2">
+              To
+              <input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} className="flex-1 p-2 border border-gray-200 rounded-lg" />
+            </label>
+          </div>
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>
+              {loading ? 'Searching...' : response ? `${response.total} file${response.total === 1 ? '' : 's'}` : ''}
+            </span>
+            <button onClick={clearLibrary} className="text-red-600 hover:text-red-800">
+              Clear library
+            </button>
+          </div>
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+        </div>
+
+        {/* Results */}
+        {response && entries.length === 0 && !loading && (
+          <div className="bg-white rounded-xl p-12 shadow-lg text-center text-gray-500">
+            {Object.values(filters).some(Boolean)
+              ? 'Nothing matches these filters.'
+              : 'The library is empty. Files you organize are added to it automatically.'}
+          </div>
+        )}
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {entries.map(entry => (
+            <div key={entry.hash} className="bg-white rounded-xl shadow-lg overflow-hidden">
+              <div className="h-44 bg-gray-100 flex items-center justify-center">
+                {entry.thumbnail ? (
+                  <Image
+                    src={`/api/library/thumbnails/${entry.hash}`}
+                    alt={entry.content}
+                    width={320}
+                    height={176}
+                    unoptimized
+                    className="w-full h-44 object-cover"
+                  />
+                ) : (
+                  <span className="text-4xl">{entry.fileType === 'pdf' ? '📄' : '🖼️'}</span>
+                )}
+              </div>
+              <div className="p-4 space-y-2 text-sm text-gray-600">
+                <p className="font-semibold text-gray-800 truncate" title={entry.fileName}>{entry.fileName}</p>
+                <p><strong>Content:</strong> {entry.content}</p>
+                {entry.extracted_text && (
+                  <p className="line-clamp-3"><strong>Text:</strong> {entry.extracted_text}</p>
+                )}
+                <p className="text-xs text-gray-500">{describeCapture(entry.metadata)}</p>
+                <div className="flex flex-wrap gap-2 pt-1">
+                  <button
+                    onClick={() => updateFilter('category', entry.category)}
+                    className="bg-indigo-100 text-indigo-800 px-3 py-1 rounded-full text-xs hover:bg-indigo-200"
+                  >
+                    📁 {entry.category}
+                  </button>
+                  <button
+                    onClick={() => updateFilter('theme', entry.main_theme)}
+                    className="bg-gray-100 text-gray-700 px-3 py-1 rounded-full text-xs hover:bg-gray-200"
+                  >
+                    {entry.main_theme}
+                  </button>
+                  {entry.sensitivity !== 'none' && (
+                    <span className="bg-red-100 text-red-800 px-3 py-1 rounded-full text-xs">
+                      🔒 Sensitive ({entry.sensitivity})
+                    </span>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {response && entries.length < response.total && (
+          <div className="text-center mt-8">
+            <button
+              onClick={loadMore}
+              disabled={loading}
+              className="bg-indigo-600 text-white px-6 py-3 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              Load more
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import { existsSync } from "fs";
+
+// Next.js loads these for the web app; the CLI has to do it itself. Imported
+// first so that modules reading process.env at load time see the values.
+for (const file of ['.env.local', '.env']) {
+  if (existsSync(file)) process.loadEnvFile(file);
+}
@@ -0,0 +1,233 @@
+import "./env";
+import path from "path";
+import { parseArgs } from "util";
+import { mergeExistingCategories } from "../lib/existing-categories";
+import { describeUsage } from "../lib/export";
+import { libraryCategories } from "../lib/library";
+import { DEFAULT_NAME_TEMPLATE, findUnknownTokens } from "../lib/naming";
+import {
+  analyzeFiles,
+  applyPlan,
+  JOURNAL_DIR_NAME,
+  listCategoryFolders,
+  listJournals,
+  OrganizeError,
+  planTransfers,
+  readJournal,
+  scanDirectory,
+  undoJournal
+} from "../lib/organize";
+import { MAX_ANALYSIS_BATCH_SIZE } from "../lib/pipeline";
+import { getProfile } from "../lib/profiles";
+import { getProvider } from "../lib/providers";
+import { WATCH_LOG_NAME, watchDirectory } from "../lib/watch";
+
+const USAGE = `Usage:
+  npm run organize -- <directory> [options]
+  npm run organize -- undo <directory> [--journal <file>]
+  npm run organize -- watch <directory> [options]
+
+Organizes the files directly inside <directory> into category folders. Category
+folders that already exist there are reused; a new one is only created when
+none fits. With watch, keeps running and files each new file once it stops
+changing.
+
+Options:
+  --dry-run            Print the planned moves without touching any file
+  --copy               Copy files instead of moving them
+  --out <directory>    Put the category folders here instead of in <directory>
+  --template <text>    Filename template (default: the profile's, else ${DEFAULT_NAME_TEMPLATE})
+  --profile <id>       Organization profile to categorize with
+  --prompt <text>      Custom grouping instructions
+  --no-cache           Re-analyze files instead of using cached results
+  --batch-size <n>     Images per model request, 1-${MAX_ANALYSIS_BATCH_SIZE} (default: ANALYSIS_BATCH_SIZE, else 1)
+  --reuse-library      Also reuse the categories of earlier runs recorded in the library
+  --journal <file>     With undo: the journal to reverse (default: the newest)
+  --inbox <name>       With watch: folder for files that cannot be filed confidently (default: inbox)
+  --min-confidence <n> With watch: confidence needed to create a new category folder (default: 70)
+  --debounce <ms>      With watch: quiet period before a new file is processed (default: 2000)
+  --include-existing   With watch: also file what is already in the directory
+  -h, --help           Show this help`;
+
+// Relative to the working directory unless that needs ../
+function displayPath(filePath: string) {
+  const relative = path.relative(process.cwd(), filePath);
+  return relative.startsWith('..') ? filePath : relative;
+}
+
+async function resolveNaming(values: Record<string, string | boolean | undefined>) {
+  const profileId = values.profile as string | undefined;
+  const profile = profileId ? await getProfile(profileId) : undefined;
+  if (profileId && !profile) throw new OrganizeError(`Unknown profile "${profileId}"`);
+
+  const nameTemplate = (values.template as string | undefined) || profile?.nameTemplate || DEFAULT_NAME_TEMPLATE;
+  const unknownTokens = findUnknownTokens(nameTemplate);
+  if (unknownTokens.length > 0) {
+    throw new OrganizeError(`Unknown template tokens: ${unknownTokens.map(token => `{${token}}`).join(', ')}`);
+  }
+  return { profile, nameTemplate };
+}
+
+function parseBatchSize(value: string | boolean | undefined) {
+  if (value === undefined) return undefined;
+  const batchSize = Number(value);
+  if (!(Number.isInteger(batchSize) && batchSize >= 1 && batchSize <= MAX_ANALYSIS_BATCH_SIZE)) {
+    throw new OrganizeError(`--batch-size must be a whole number from 1 to ${MAX_ANALYSIS_BATCH_SIZE}`);
+  }
+  return batchSize;
+}
+
+async function organize(directory: string, values: Record<string, string | boolean | undefined>) {
+  const root = path.resolve(typeof values.out === 'string' ? values.out : directory);
+  const { profile, nameTemplate } = await resolveNaming(values);
+  const batchSize = parseBatchSize(values['batch-size']);
+
+  const filePaths = await scanDirectory(path.resolve(directory));
+  if (filePaths.length === 0) {
+    console.log(`No supported files in ${directory}`);
+    return;
+  }
+
+  const folders = await listCategoryFolders(root);
+  const existingCategories = mergeExistingCategories(
+    folders.map(name => ({ name, description: '' })),
+    values['reuse-library'] ? await libraryCategories() : []
+  );
+
+  const provider = getProvider();
+  console.log(`Analyzing ${filePaths.length} files with ${provider.id} (${provider.model})...`);
+  if (existingCategories.length > 0) console.log(`Reusing ${existingCategories.length} existing categories where they fit`);
+  const analyzed = await analyzeFiles(provider, filePaths, {
+    userPrompt: values.prompt as string | undefined,
+    profile,
+    existingCategories,
+    useCache: !values['no-cache'],
+    batchSize,
+    onAnalyzed: (analysis, done) => console.log(
+      `  [${done}/${filePaths.length}] ${analysis.fileName}: ${analysis.status === 'failed' ? `failed (${analysis.error})` : analysis.content}`
+    )
+  });
+  console.log(`Model usage: ${describeUsage(analyzed.usage.total)}`);
+  const plan = await planTransfers(filePaths, analyzed, root, nameTemplate);
+
+  const mode = values.copy ? 'copy' : 'move';
+  console.log(`\n${values['dry-run'] ? 'Would' : 'Will'} ${mode} ${plan.transfers.length} files:`);
+  for (const transfer of plan.transfers) {
+    const rule = transfer.categorizedBy === 'rule' ? ' (rule)' : '';
+    console.log(`  ${displayPath(transfer.from)} -> ${displayPath(transfer.to)}${rule}`);
+  }
+  const created = Object.entries(plan.categories).filter(([, info]) => info.origin === 'new');
+  if (created.length > 0) {
+    console.log(`\nNew categories:`);
+    for (const [name, info] of created) console.log(`  ${name}${info.justification ? `: ${info.justification}` : ''}`);
+  }
+  if (plan.skipped.length > 0) {
+    console.log(`\nLeaving ${plan.skipped.length} files in place; run again to retry them:`);
+    for (const { from, reason } of plan.skipped) console.log(`  ${displayPath(from)}: ${reason}`);
+  }
+  if (values['dry-run']) return;
+
+  const journal = await applyPlan(plan, mode);
+  console.log(`\nDone. Undo with: npm run organize -- undo --journal ${journal}`);
+}
+
+// Without --journal, runs are undone newest first, one per call
+async function findUndoableJournal(directory: string) {
+  for (const file of await listJournals(path.resolve(directory))) {
+    if (!(await readJournal(file)).undoneAt) return file;
+  }
+  return undefined;
+}
+
+async function undo(directory: string, journalOption: string | undefined) {
+  const journal = journalOption ?? (await findUndoableJournal(directory));
+  if (!journal) throw new OrganizeError(`No run left to undo in ${directory}`);
+
+  const report = await undoJournal(journal);
+  console.log(`Restored ${report.restored} files from ${journal}`);
+  for (const { entry, reason } of report.skipped) {
+    console.error(`  Skipped ${entry.to}: ${reason}`);
+  }
+  if (report.skipped.length > 0) process.exitCode = 1;
+}
+
+async function watchFolder(directory: string, values: Record<string, string | boolean | undefined>) {
+  const minConfidence = Number(values['min-confidence']);
+  const debounceMs = Number(values.debounce);
+  if (!(minConfidence >= 0 && minConfidence <= 100)) throw new OrganizeError('--min-confidence must be between 0 and 100');
+  if (!(debounceMs >= 0)) throw new OrganizeError('--debounce must be a number of milliseconds');
+
+  const { profile, nameTemplate } = await resolveNaming(values);
+  const provider = getProvider();
+  const root = path.resolve(typeof values.out === 'string' ? values.out : directory);
+  const watcher = watchDirectory(provider, path.resolve(directory), {
+    root,
+    inbox: values.inbox as string,
+    minConfidence,
+    debounceMs,
+    nameTemplate,
+    userPrompt: values.prompt as string | undefined,
+    profile,
+    useCache: !values['no-cache'],
+    batchSize: parseBatchSize(values['batch-size']),
+    existingCategories: values['reuse-library'] ? await libraryCategories() : undefined,
+    includeExisting: Boolean(values['include-existing']),
+    onLog: entry => console.log(`${entry.time} ${entry.action} ${displayPath(entry.file)}${entry.to ? ` -> ${displayPath(entry.to)}` : ''} (${entry.reason})`)
+  });
+  console.log(`Watching ${directory} with ${provider.id} (${provider.model}); audit log: ${path.join(root, JOURNAL_DIR_NAME, WATCH_LOG_NAME)}`);
+
+  await new Promise<void>(resolve => {
+    const stop = () => {
+      console.log('Stopping; waiting for the current batch...');
+      void watcher.close().then(resolve);
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'dry-run': { type: 'boolean' },
+      copy: { type: 'boolean' },
+      out: { type: 'string' },
+      template: { type: 'string' },
+      profile: { type: 'string' },
+      prompt: { type: 'string' },
+      'no-cache': { type: 'boolean' },
+      'batch-size': { type: 'string' },
+      'reuse-library': { type: 'boolean' },
+      journal: { type: 'string' },
+      inbox: { type: 'string', default: 'inbox' },
+      'min-confidence': { type: 'string', default: '70' },
+      debounce: { type: 'string', default: '2000' },
+      'include-existing': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (positionals[0] === 'undo') {
+    if (!positionals[1] && !values.journal) throw new OrganizeError('undo needs a directory or --journal');
+    await undo(positionals[1] ?? '.', values.journal);
+  } else if (positionals[0] === 'watch') {
+    if (!positionals[1]) throw new OrganizeError('watch needs a directory');
+    await watchFolder(positionals[1], values);
+  } else {
+    await organize(positionals[0], values);
+  }
+}
+
+main().catch(error => {
+  // Expected problems get a one-line message; anything else a stack trace
+  console.error(error instanceof OrganizeError || (error as { code?: string }).code === 'ERR_PARSE_ARGS_UNKNOWN_OPTION'
+    ? `Error: ${error.message}`
+    : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,53 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import type { VisionProvider } from "./providers";
+import { dataPath, readJsonFile, writeJsonFile } from "./storage";
+import type { ImageAnalysis } from "./types";
+
+const CACHE_DIR = dataPath('analysis-cache');
+
+// Set ANALYSIS_CACHE=off to neither read nor write cached analyses
+export const ANALYSIS_CACHE_ENABLED = process.env.ANALYSIS_CACHE !== 'off';
+
+export function sha256(data: Buffer | string) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Cache key for a phase-1 analysis: the content hash of the image sent to the
+ * model, the version of the phase-1 prompt and the model that answered.
+ */
+export function analysisCacheKey(contentHash: string, promptVersion: string, provider: VisionProvider) {
+  return sha256(`${contentHash}:${promptVersion}:${provider.id}:${provider.model}`);
+}
+
+function cacheFile(key: string) {
+  return dataPath('analysis-cache', `${key}.json`);
+}
+
+export async function readCachedAnalysis(key: string): Promise<ImageAnalysis | undefined> {
+  try {
+    return await readJsonFile<ImageAnalysis>(cacheFile(key));
+  } catch (error) {
+    // A corrupt entry is just a miss; it gets overwritten on the next write
+    console.error(`Ignoring unreadable analysis cache entry ${key}:`, error);
+    return undefined;
+  }
+}
+
+export async function writeCachedAnalysis(key: string, analysis: ImageAnalysis) {
+  try {
+    await writeJsonFile(cacheFile(key), analysis);
+  } catch (error) {
+    console.error(`Could not write analysis cache entry ${key}:`, error);
+  }
+}
+
+/**
+ * Deletes every cached analysis and returns how many entries were removed.
+ */
+export async function clearAnalysisCache(): Promise<number> {
+  const entries = await fs.readdir(CACHE_DIR).catch(() => [] as string[]);
+  await fs.rm(CACHE_DIR, { recursive: true, force: true });
+  return entries.filter(entry => entry.endsWith('.json')).length;
+}
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { deleteCategory, mergeCategories, moveImages, normalizeCategoryName, renameCategory, splitCategory, UNCATEGORIZED, type CategoryState } from "./category-edits";
+
+type Result = { index: number; analysis: { category: string } };
+
+function state(assignments: string[], descriptions: Record<string, string>): CategoryState<Result> {
+  return {
+    results: assignments.map((category, index) => ({ index, analysis: { category } })),
+    categories: Object.fromEntries(Object.entries(descriptions).map(([name, description]) => [
+      name,
+      { description, images: assignments.flatMap((category, index) => (category === name ? [index] : [])) }
+    ]))
+  };
+}
+
+function assignments(edited: CategoryState<Result>) {
+  return edited.results.map(result => result.analysis.category);
+}
+
+function images(edited: CategoryState<Result>) {
+  return Object.fromEntries(Object.entries(edited.categories).map(([name, info]) => [name, info.images]));
+}
+
+describe('normalizeCategoryName', () => {
+  it('keeps nested levels as folder-safe names', () => {
+    assert.equal(normalizeCategoryName(' finance / pay slips '), 'finance/pay_slips');
+    assert.equal(normalizeCategoryName('../a:b//./c/d/e'), 'a_b/c/d');
+  });
+});
+
+describe('moveImages and splitCategory', () => {
+  it('rebuilds every image list from the results and keeps empty categories', () => {
+    const edited = moveImages(state(['finance', 'finance', 'coding'], { finance: 'Money', coding: 'Code' }), [0, 1], 'coding');
+    assert.deepEqual(images(edited), { finance: [], coding: [0, 1, 2] });
+  });
+
+  it('puts the chosen images into a new category', () => {
+    const edited = splitCategory(state(['finance', 'finance'], { finance: 'Money' }), [1], 'finance/payslips', 'Payslips');
+    assert.deepEqual(assignments(edited), ['finance', 'finance/payslips']);
+    assert.equal(edited.categories['finance/payslips'].description, 'Payslips');
+  });
+});
+
+describe('renameCategory', () => {
+  it('takes nested subcategories along', () => {
+    const edited = renameCategory(
+      state(['finance', 'finance/payslips', 'finance/payslips/2025', 'coding'], { finance: 'Money', 'finance/payslips': 'Pay', 'finance/payslips/2025': 'This year', coding: 'Code' }),
+      'finance',
+      'money'
+    );
+    assert.deepEqual(assignments(edited), ['money', 'money/payslips', 'money/payslips/2025', 'coding']);
+    assert.deepEqual(Object.keys(edited.categories), ['money', 'money/payslips', 'money/payslips/2025', 'coding']);
+    assert.equal(edited.categories['money/payslips'].description, 'Pay');
+  });
+
+  it('moves a subcategory to another parent and adds missing parents', () => {
+    const edited = renameCategory(state(['finance/payslips'], { finance: 'Money', 'finance/payslips': 'Pay' }), 'finance/payslips', 'work/payslips');
+    assert.deepEqual(assignments(edited), ['work/payslips']);
+    assert.deepEqual(images(edited), { finance: [], work: [], 'work/payslips': [0] });
+  });
+
+  it('merges into an existing category, which keeps its description', () => {
+    const edited = renameCategory(state(['bills', 'finance'], { bills: 'Bills', finance: 'Money' }), 'bills', 'finance');
+    assert.deepEqual(images(edited), { finance: [0, 1] });
+    assert.equal(edited.categories.finance.description, 'Money');
+  });
+
+  it('ignores unknown categories', () => {
+    const original = state(['finance'], { finance: 'Money' });
+    assert.equal(renameCategory(original, 'nope', 'other'), original);
+  });
+});
+
+describe('mergeCategories', () => {
+  it('merges a subtree into an existing path', () => {
+    const edited = mergeCategories(
+      state(['bills', 'bills/power', 'finance', 'finance/power'], { bills: 'Bills', 'bills/power': 'Power bills', finance: 'Money', 'finance/power': 'Energy' }),
+      'bills',
+      'finance'
+    );
+    assert.deepEqual(assignments(edited), ['finance', 'finance/power', 'finance', 'finance/power']);
+    assert.deepEqual(images(edited), { finance: [0, 2], 'finance/power': [1, 3] });
+    assert.equal(edited.categories['finance/power'].description, 'Energy');
+  });
+
+  it('refuses to merge a category into its own subcategory', () => {
+    const original = state(['finance', 'finance/power'], { finance: 'Money', 'finance/power': 'Energy' });
+    assert.equal(mergeCategories(original, 'finance', 'finance/power'), original);
+  });
+});
+
+describe('deleteCategory', () => {
+  it('uncategorizes the images of the whole subtree', () => {
+    const edited = deleteCategory(
+      state(['finance', 'finance/payslips', 'financial', 'coding'], { finance: 'Money', 'finance/payslips': 'Pay', financial: 'Similar name', coding: 'Code' }),
+      'finance'
+    );
+    assert.deepEqual(assignments(edited), [UNCATEGORIZED, UNCATEGORIZED, 'financial', 'coding']);
+    assert.deepEqual(Object.keys(edited.categories), ['financial', 'coding', UNCATEGORIZED]);
+  });
+
+  it('keeps uncategorized while it still has images', () => {
+    const original = state([UNCATEGORIZED], { [UNCATEGORIZED]: '' });
+    assert.equal(deleteCategory(original, UNCATEGORIZED), original);
+  });
+});
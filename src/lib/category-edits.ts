@@ -0,0 +1,100 @@
+import { CATEGORY_SEPARATOR, MAX_CATEGORY_DEPTH, isWithinCategory, withParentCategories } from "./category-tree";
+import type { CategoryMap } from "./types";
+
+// Manual category edits made in the browser before export. Every edit returns
+// a new state; `results` carry the authoritative assignment and each
+// category's `images` list is rebuilt from them. Renames, merges and deletes
+// take a category's subcategories along.
+
+export const UNCATEGORIZED = 'uncategorized';
+
+interface Categorized {
+  index: number;
+  analysis: { category: string };
+}
+
+export interface CategoryState<R extends Categorized> {
+  results: R[];
+  categories: CategoryMap;
+}
+
+// "/" separates the levels of a nested category; each level has to be a
+// valid folder name, so "." and ".." are dropped, and levels past
+// MAX_CATEGORY_DEPTH are cut off
+export function normalizeCategoryName(name: string) {
+  return name
+    .split(CATEGORY_SEPARATOR)
+    .map(segment => segment.trim().replace(/[\\:*?"<>|]/g, '_').replace(/\s+/g, '_'))
+    .filter(segment => segment && !/^\.+$/.test(segment))
+    .slice(0, MAX_CATEGORY_DEPTH)
+    .join(CATEGORY_SEPARATOR);
+}
+
+function withCategory<R extends Categorized>(result: R, category: string): R {
+  return { ...result, analysis: { ...result.analysis, category } };
+}
+
+// Empty categories are kept so the user can still drop images into them
+function syncImages<R extends Categorized>(results: R[], categories: CategoryMap): CategoryState<R> {
+  const synced: CategoryMap = {};
+  for (const [name, info] of Object.entries(categories)) {
+    synced[name] = { ...info, images: [] };
+  }
+  for (const result of results) {
+    const name = result.analysis.category;
+    synced[name] ??= { description: name === UNCATEGORIZED ? 'Images not assigned to any category' : '', images: [] };
+    synced[name].images.push(result.index);
+  }
+  return { results, categories: withParentCategories(synced) };
+}
+
+// Re-roots the subtree at `from` under `to`. Where a moved category lands on
+// one that already exists, the two are merged and the existing one keeps its
+// description.
+function moveSubtree<R extends Categorized>(state: CategoryState<R>, from: string, to: string): CategoryState<R> {
+  const rename = (path: string) => (isWithinCategory(path, from) ? to + path.slice(from.length) : path);
+  const categories: CategoryMap = {};
+  for (const [name, info] of Object.entries(state.categories)) {
+    const target = rename(name);
+    if (target !== name && state.categories[target] && !isWithinCategory(target, from)) continue;
+    categories[target] = info;
+  }
+  const results = state.results.map(result => {
+    const target = rename(result.analysis.category);
+    return target === result.analysis.category ? result : withCategory(result, target);
+  });
+  return syncImages(results, categories);
+}
+
+export function moveImages<R extends Categorized>(state: CategoryState<R>, indexes: number[], target: string): CategoryState<R> {
+  const moving = new Set(indexes);
+  const results = state.results.map(result => (moving.has(result.index) ? withCategory(result, target) : result));
+  return syncImages(results, state.categories);
+}
+
+// Renaming onto an existing category is a merge; a name with "/" moves the
+// category (and its subcategories) elsewhere in the tree
+export function renameCategory<R extends Categorized>(state: CategoryState<R>, from: string, to: string): CategoryState<R> {
+  if (from === to || !state.categories[from]) return state;
+  return moveSubtree(state, from, to);
+}
+
+// Subcategories of `source` become subcategories of `target`
+export function mergeCategories<R extends Categorized>(state: CategoryState<R>, source: string, target: string): CategoryState<R> {
+  if (source === target || isWithinCategory(target, source)) return state;
+  return moveSubtree(state, source, target);
+}
+
+export function splitCategory<R extends Categorized>(state: CategoryState<R>, indexes: number[], name: string, description: string): CategoryState<R> {
+  const categories = { ...state.categories, [name]: state.categories[name] ?? { description, images: [] } };
+  return moveImages({ ...state, categories }, indexes, name);
+}
+
+// Images of a deleted category and its subcategories become uncategorized
+// rather than disappearing
+export function deleteCategory<R extends Categorized>(state: CategoryState<R>, name: string): CategoryState<R> {
+  if (name === UNCATEGORIZED && state.results.some(result => result.analysis.category === name)) return state;
+  const categories = Object.fromEntries(Object.entries(state.categories).filter(([path]) => !isWithinCategory(path, name)));
+  const results = state.results.map(result => (isWithinCategory(result.analysis.category, name) ? withCategory(result, UNCATEGORIZED) : result));
+  return syncImages(results, categories);
+}
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildCategoryTree, categoryAncestors, isWithinCategory, pruneEmptyCategories, withParentCategories } from "./category-tree";
+
+describe('category paths', () => {
+  it('lists ancestors outermost first', () => {
+    assert.deepEqual(categoryAncestors('a/b/c'), ['a', 'a/b']);
+    assert.deepEqual(categoryAncestors('a'), []);
+  });
+
+  it('matches whole segments only', () => {
+    assert.equal(isWithinCategory('finance/payslips', 'finance'), true);
+    assert.equal(isWithinCategory('finance', 'finance'), true);
+    assert.equal(isWithinCategory('financial', 'finance'), false);
+  });
+});
+
+describe('withParentCategories and pruneEmptyCategories', () => {
+  it('adds missing parents before their first child', () => {
+    const categories = withParentCategories({ coding: { description: 'Code', images: [0] }, 'finance/payslips/2025': { description: 'Pay', images: [1] } });
+    assert.deepEqual(Object.keys(categories), ['coding', 'finance', 'finance/payslips', 'finance/payslips/2025']);
+    assert.deepEqual(categories.finance, { description: '', images: [] });
+  });
+
+  it('keeps parents of categories with images', () => {
+    const pruned = pruneEmptyCategories({
+      finance: { description: '', images: [] },
+      'finance/payslips': { description: '', images: [2] },
+      coding: { description: '', images: [] }
+    });
+    assert.deepEqual(Object.keys(pruned), ['finance', 'finance/payslips']);
+  });
+});
+
+describe('buildCategoryTree', () => {
+  it('nests children and counts images of whole subtrees', () => {
+    const [finance, coding] = buildCategoryTree({
+      'finance/payslips': { description: 'Pay', images: [0, 1] },
+      coding: { description: 'Code', images: [2] },
+      'finance/receipts': { description: 'Shops', images: [3] }
+    });
+    assert.equal(finance.path, 'finance');
+    assert.equal(finance.total, 3);
+    assert.deepEqual(finance.children.map(child => [child.name, child.total]), [['payslips', 2], ['receipts', 1]]);
+    assert.equal(coding.total, 1);
+  });
+});
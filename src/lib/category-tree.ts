@@ -0,0 +1,83 @@
+import type { CategoryMap } from "./types";
+
+// Categories nest by path: "finance/payslips/2025" is a child of
+// "finance/payslips", which is a child of "finance". A CategoryMap lists
+// every node, parents included, and a node's `images` are only the files
+// filed directly under it. Nothing here may import Node-only modules.
+
+export const CATEGORY_SEPARATOR = '/';
+export const MAX_CATEGORY_DEPTH = 3;
+
+export interface CategoryNode {
+  path: string;
+  // Last segment of the path
+  name: string;
+  description: string;
+  images: number[];
+  // Images in this node and all of its descendants
+  total: number;
+  children: CategoryNode[];
+}
+
+export function categoryDepth(path: string) {
+  return path.split(CATEGORY_SEPARATOR).length;
+}
+
+// "a/b/c" -> ["a", "a/b"]
+export function categoryAncestors(path: string): string[] {
+  const segments = path.split(CATEGORY_SEPARATOR);
+  return segments.slice(0, -1).map((_, i) => segments.slice(0, i + 1).join(CATEGORY_SEPARATOR));
+}
+
+export function isWithinCategory(path: string, ancestor: string) {
+  return path === ancestor || path.startsWith(ancestor + CATEGORY_SEPARATOR);
+}
+
+/**
+ * Adds every missing parent, with an empty description, right before the
+ * first category that needs it.
+ */
+export function withParentCategories(categories: CategoryMap): CategoryMap {
+  const complete: CategoryMap = {};
+  for (const [path, info] of Object.entries(categories)) {
+    for (const ancestor of categoryAncestors(path)) {
+      if (!complete[ancestor]) complete[ancestor] = categories[ancestor] ?? { description: '', images: [] };
+    }
+    complete[path] = info;
+  }
+  return complete;
+}
+
+// Drops every category with no images anywhere in its subtree
+export function pruneEmptyCategories(categories: CategoryMap): CategoryMap {
+  const used = new Set<string>();
+  for (const [path, info] of Object.entries(categories)) {
+    if (info.images.length === 0) continue;
+    used.add(path);
+    categoryAncestors(path).forEach(ancestor => used.add(ancestor));
+  }
+  return Object.fromEntries(Object.entries(categories).filter(([path]) => used.has(path)));
+}
+
+// Roots and children keep the order in which they appear in `categories`
+export function buildCategoryTree(categories: CategoryMap): CategoryNode[] {
+  const nodes = new Map<string, CategoryNode>();
+  const roots: CategoryNode[] = [];
+  for (const [path, info] of Object.entries(withParentCategories(categories))) {
+    const node: CategoryNode = {
+      path,
+      name: path.split(CATEGORY_SEPARATOR).pop()!,
+      description: info.description,
+      images: info.images,
+      total: 0,
+      children: []
+    };
+    nodes.set(path, node);
+    const parent = categoryAncestors(path).pop();
+    if (parent) nodes.get(parent)!.children.push(node); else roots.push(node);
+  }
+
+  const count = (node: CategoryNode): number => (node.total = node.images.length + node.children.reduce((sum, child) => sum + count(child), 0));
+  roots.forEach(count);
+  return roots;
+}
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import sharp from 'sharp';
+import { findDuplicate, hammingDistance, perceptualHash } from "./duplicates";
+
+// 64 hex digits, as perceptualHash returns them
+const DETAILED = 'f0f0'.repeat(16);
+
+// Smooth brightness waves; `scale` sets their size relative to the image
+function waves(width: number, height: number, scale: number) {
+  const pixels = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixels[y * width + x] = 128 + 100 * Math.sin((x / width) * scale * 7) * Math.cos((y / height) * scale * 5);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 1 } });
+}
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    assert.equal(hammingDistance('00ff', '00ff'), 0);
+    assert.equal(hammingDistance('00ff', '01fe'), 2);
+    assert.equal(hammingDistance('0'.repeat(64), 'f'.repeat(64)), 256);
+  });
+});
+
+describe('findDuplicate', () => {
+  it('prefers an exact match over a closer near match', () => {
+    const representatives = [{ index: 0, hash: 'a', perceptualHash: DETAILED }, { index: 1, hash: 'b', perceptualHash: 'ffff'.repeat(16) }];
+    assert.deepEqual(findDuplicate({ index: 2, hash: 'b', perceptualHash: DETAILED }, representatives), { of: 1, kind: 'exact', distance: 0 });
+  });
+
+  it('picks the closest near match within the limit', () => {
+    const representatives = [
+      { index: 0, perceptualHash: `f1f1${'f0f0'.repeat(15)}` },
+      { index: 1, perceptualHash: `f0f1${'f0f0'.repeat(15)}` },
+      { index: 2, perceptualHash: '0f0f'.repeat(16) }
+    ];
+    assert.deepEqual(findDuplicate({ index: 3, perceptualHash: DETAILED }, representatives), { of: 1, kind: 'near', distance: 1 });
+  });
+
+  it('does not match distant or nearly blank hashes', () => {
+    assert.equal(findDuplicate({ index: 1, perceptualHash: DETAILED }, [{ index: 0, perceptualHash: '0f0f'.repeat(16) }]), undefined);
+    const blank = `${'0'.repeat(62)}01`;
+    assert.equal(findDuplicate({ index: 1, perceptualHash: blank }, [{ index: 0, perceptualHash: blank }]), undefined);
+  });
+});
+
+describe('perceptualHash', () => {
+  it('keeps resized and re-encoded copies close and different images apart', async () => {
+    const original = await waves(400, 300, 1).png().toBuffer();
+    const copy = await sharp(original).resize(320, 240).jpeg({ quality: 80 }).toBuffer();
+    const other = await waves(400, 300, 2.3).png().toBuffer();
+    const [a, b, c] = await Promise.all([original, copy, other].map(perceptualHash));
+    assert.equal(a?.length, 64);
+    assert.ok(hammingDistance(a!, b!) <= 12, `copy is ${hammingDistance(a!, b!)} bits away`);
+    assert.ok(hammingDistance(a!, c!) > 12, `other image is ${hammingDistance(a!, c!)} bits away`);
+  });
+
+  it('returns undefined for bytes that are not an image', async () => {
+    assert.equal(await perceptualHash(Buffer.from('not an image')), undefined);
+  });
+});
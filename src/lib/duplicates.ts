@@ -0,0 +1,105 @@
+import sharp from 'sharp';
+import type { DuplicateInfo } from "./types";
+
+// Duplicate detection before phase 1: byte-identical uploads share a SHA-256,
+// re-saved or slightly cropped copies have a dHash within a few bits.
+
+export const DUPLICATE_DETECTION_ENABLED = process.env.DUPLICATE_DETECTION !== 'off';
+
+// dHash grid: HASH_SIZE×HASH_SIZE bits. Screenshots of the same app share a
+// layout, so the common 8×8 grid calls too many of them duplicates
+const HASH_SIZE = 16;
+
+// Brightness steps (0-255) a pixel must exceed its neighbour by to set a bit.
+// Flat areas otherwise produce bits that flip with compression noise
+const GRADIENT_MARGIN = 4;
+
+// Largest Hamming distance between two dHashes that still counts as the same
+// picture; 0 only matches visually identical images
+const MAX_DISTANCE = Number(process.env.DUPLICATE_MAX_DISTANCE ?? 12);
+
+// Nearly uniform images (blank pages, solid colours) hash to almost all
+// zeros and would all match each other; they only count as exact duplicates
+const MIN_DETAIL_BITS = 16;
+
+export interface DuplicateCandidate {
+  index: number;
+  hash?: string;
+  perceptualHash?: string;
+}
+
+/**
+ * Difference hash as hex digits: the image is shrunk to a small grayscale
+ * grid and each bit says whether a pixel is clearly brighter than its
+ * right neighbour. Survives re-encoding, resizing and small crops.
+ */
+export async function perceptualHash(buffer: Buffer): Promise<string | undefined> {
+  try {
+    const pixels = await sharp(buffer)
+      .rotate()
+      .grayscale()
+      .resize(HASH_SIZE + 1, HASH_SIZE, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+    let hash = '';
+    let nibble = 0;
+    for (let row = 0; row < HASH_SIZE; row++) {
+      for (let column = 0; column < HASH_SIZE; column++) {
+        const offset = row * (HASH_SIZE + 1) + column;
+        nibble = (nibble << 1) | (pixels[offset] > pixels[offset + 1] + GRADIENT_MARGIN ? 1 : 0);
+        if (column % 4 === 3) {
+          hash += nibble.toString(16);
+          nibble = 0;
+        }
+      }
+    }
+    return hash;
+  } catch (error) {
+    console.error('Could not compute perceptual hash:', error);
+    return undefined;
+  }
+}
+
+function countBits(value: number) {
+  let count = 0;
+  while (value) {
+    count += value & 1;
+    value >>>= 1;
+  }
+  return count;
+}
+
+export function hammingDistance(a: string, b: string) {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    distance += countBits(parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16));
+  }
+  return distance;
+}
+
+function hasDetail(hash: string) {
+  return hammingDistance(hash, '0'.repeat(hash.length)) >= MIN_DETAIL_BITS;
+}
+
+/**
+ * Finds the representative `candidate` duplicates, preferring an exact match
+ * over the closest near match. Representatives are images that were not
+ * themselves duplicates of an earlier one.
+ */
+export function findDuplicate(candidate: DuplicateCandidate, representatives: DuplicateCandidate[]): DuplicateInfo | undefined {
+  if (!DUPLICATE_DETECTION_ENABLED) return undefined;
+
+  const exact = candidate.hash && representatives.find(representative => representative.hash === candidate.hash);
+  if (exact) return { of: exact.index, kind: 'exact', distance: 0 };
+
+  if (!candidate.perceptualHash || !hasDetail(candidate.perceptualHash)) return undefined;
+  let best: DuplicateInfo | undefined;
+  for (const representative of representatives) {
+    if (!representative.perceptualHash) continue;
+    const distance = hammingDistance(candidate.perceptualHash, representative.perceptualHash);
+    if (distance <= MAX_DISTANCE && (!best || distance < best.distance)) {
+      best = { of: representative.index, kind: 'near', distance };
+    }
+  }
+  return best;
+}
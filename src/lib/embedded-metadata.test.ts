@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import sharp from 'sharp';
+import { buildXmpPacket, embeddedFields, embedMetadata, type EmbeddedFields } from "./embedded-metadata";
+import type { ExportableResult } from "./export";
+
+const FIELDS: EmbeddedFields = {
+  title: 'react error',
+  description: 'react error\nTypeError <undefined> & more',
+  keywords: ['error', 'coding']
+};
+
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/';
+
+function image(format: 'jpeg' | 'png') {
+  return sharp({ create: { width: 8, height: 6, channels: 3, background: { r: 200, g: 40, b: 40 } } })[format]().toBuffer();
+}
+
+// sharp writes no JFIF header; readers expect it before any APP1 segment
+function withJfifHeader(jpeg: Buffer) {
+  const app0 = Buffer.from([0xff, 0xe0, 0x00, 0x10, ...Buffer.from('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+  return Buffer.concat([jpeg.subarray(0, 2), app0, jpeg.subarray(2)]);
+}
+
+function occurrences(bytes: Uint8Array, text: string) {
+  return Buffer.from(bytes).toString('latin1').split(text).length - 1;
+}
+
+// Marker of every JPEG segment before the image data
+function jpegMarkers(bytes: Uint8Array) {
+  const markers: number[] = [];
+  for (let offset = 2; bytes[offset + 1] !== 0xda; offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3])) {
+    markers.push(bytes[offset + 1]);
+  }
+  return markers;
+}
+
+// Type, and keyword for text chunks, of every PNG chunk
+function pngChunks(bytes: Uint8Array) {
+  const buffer = Buffer.from(bytes);
+  const chunks: string[] = [];
+  for (let offset = 8; offset < buffer.length; offset += 12 + buffer.readUInt32BE(offset)) {
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    chunks.push(type === 'iTXt' ? `${type}:${buffer.toString('latin1', offset + 8, offset + 48).split('\0')[0]}` : type);
+  }
+  return chunks;
+}
+
+describe('buildXmpPacket', () => {
+  it('escapes the fields', () => {
+    const xmp = buildXmpPacket(FIELDS);
+    assert.ok(xmp.includes('TypeError &lt;undefined&gt; &amp; more'));
+    assert.ok(xmp.includes('<rdf:li>error</rdf:li><rdf:li>coding</rdf:li>'));
+  });
+});
+
+describe('embedMetadata', () => {
+  it('adds an XMP APP1 segment to a JPEG after its JFIF header', async () => {
+    const original = withJfifHeader(await image('jpeg'));
+    const embedded = embedMetadata(original, FIELDS)!;
+    assert.deepEqual(jpegMarkers(embedded).slice(0, 2), [0xe0, 0xe1]);
+    assert.equal(occurrences(embedded, XMP_NAMESPACE), 1);
+    // The image data is untouched
+    assert.ok(Buffer.from(embedded).subarray(-100).equals(original.subarray(-100)));
+    assert.equal((await sharp(embedded).metadata()).width, 8);
+  });
+
+  it('replaces an earlier packet instead of adding another', async () => {
+    const once = embedMetadata(await image('jpeg'), FIELDS)!;
+    const twice = embedMetadata(once, { ...FIELDS, title: 'second title' })!;
+    assert.equal(occurrences(twice, XMP_NAMESPACE), 1);
+    assert.equal(occurrences(twice, 'second title'), 1);
+    assert.equal(occurrences(twice, 'react error</rdf:li></rdf:Alt></dc:title>'), 0);
+  });
+
+  it('adds title, description and XMP iTXt chunks to a PNG after its header', async () => {
+    const embedded = embedMetadata(await image('png'), FIELDS)!;
+    const chunks = pngChunks(embedded);
+    assert.deepEqual(chunks.slice(0, 4), ['IHDR', 'iTXt:Title', 'iTXt:Description', 'iTXt:XML:com.adobe.xmp']);
+    assert.equal(chunks.at(-1), 'IEND');
+    // libpng checks every chunk's CRC while decoding
+    const { data } = await sharp(embedded).raw().toBuffer({ resolveWithObject: true });
+    assert.equal(data.length, 8 * 6 * 3);
+
+    const again = embedMetadata(embedded, FIELDS)!;
+    assert.equal(pngChunks(again).filter(chunk => chunk.startsWith('iTXt')).length, 3);
+  });
+
+  it('returns null for other formats and truncated files', async () => {
+    assert.equal(embedMetadata(await sharp({ create: { width: 2, height: 2, channels: 3, background: 'white' } }).webp().toBuffer(), FIELDS), null);
+    const png = await image('png');
+    assert.equal(embedMetadata(png.subarray(0, png.length - 20), FIELDS), null);
+    const jpeg = await image('jpeg');
+    assert.equal(embedMetadata(jpeg.subarray(0, 30), FIELDS), null);
+  });
+});
+
+describe('embeddedFields', () => {
+  const result: ExportableResult = {
+    index: 0,
+    analysis: {
+      content: 'terminal_credentials',
+      category: 'coding_files/terminal_credentials',
+      extracted_text: `export GITHUB_TOKEN=ghp_${'x'.repeat(36)}`,
+      main_theme: 'coding',
+      tags: ['coding', 'security'],
+      confidence: 90
+    },
+    status: 'success'
+  };
+
+  it('uses the label, text and distinct keywords', () => {
+    assert.deepEqual(embeddedFields(result, 'off'), {
+      title: 'terminal credentials',
+      description: `terminal credentials\nexport GITHUB_TOKEN=ghp_${'x'.repeat(36)}`,
+      keywords: ['coding', 'security', 'coding files', 'terminal credentials']
+    });
+  });
+
+  it('masks secrets when the export redacts', () => {
+    assert.equal(embeddedFields(result, 'blur')?.description, 'terminal credentials\nexport GITHUB_TOKEN=[REDACTED]');
+  });
+
+  it('skips placeholder results', () => {
+    assert.equal(embeddedFields({ ...result, status: 'fallback' }, 'off'), null);
+  });
+});
@@ -0,0 +1,184 @@
+import { CATEGORY_SEPARATOR } from "./category-tree";
+import type { ExportableResult, RedactionMode } from "./export";
+import { redactSensitiveText } from "./sensitivity";
+
+// Writes the analysis of an exported image into the file itself, as an XMP
+// packet (JPEG APP1 segment, PNG iTXt chunk) plus PNG Title and Description
+// text chunks, so desktop search and photo managers find it by content. Only
+// metadata is added: the image data is copied byte for byte. Works on plain
+// bytes, so nothing here may import Node-only modules.
+
+export interface EmbeddedFields {
+  title: string;
+  description: string;
+  keywords: string[];
+}
+
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_EXTENSION_NAMESPACE = 'http://ns.adobe.com/xmp/extension/\0';
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// Chunks with these keywords are replaced rather than repeated
+const PNG_TEXT_KEYWORDS = new Set([PNG_XMP_KEYWORD, 'Title', 'Description']);
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * What goes into a file: the content label as its title, the label and the
+ * extracted text as its description, and the tags, theme and category levels
+ * as keywords. Null for failed and placeholder results, whose labels are
+ * made up. Secrets in the text are masked when the export redacts.
+ */
+export function embeddedFields(result: ExportableResult, redactionMode: RedactionMode): EmbeddedFields | null {
+  if (result.status !== 'success') return null;
+  const { analysis } = result;
+  const title = analysis.content.replace(/_/g, ' ');
+  const text = redactionMode === 'off' ? analysis.extracted_text : redactSensitiveText(analysis.extracted_text);
+  const keywords = [
+    ...(analysis.tags ?? []),
+    analysis.main_theme ?? '',
+    ...analysis.category.split(CATEGORY_SEPARATOR)
+  ].map(keyword => keyword.replace(/_/g, ' ').trim()).filter(keyword => keyword && keyword !== 'misc');
+  return {
+    title,
+    description: [title, text.trim()].filter(Boolean).join('\n'),
+    keywords: [...new Set(keywords)]
+  };
+}
+
+// XML escaping; control characters that XML does not allow are dropped
+function xmlText(value: string) {
+  return value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function buildXmpPacket(fields: EmbeddedFields) {
+  const alt = (value: string) => `<rdf:Alt><rdf:li xml:lang="x-default">${xmlText(value)}</rdf:li></rdf:Alt>`;
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">
+   <dc:title>${alt(fields.title)}</dc:title>
+   <dc:description>${alt(fields.description)}</dc:description>
+   <dc:subject><rdf:Bag>${fields.keywords.map(keyword => `<rdf:li>${xmlText(keyword)}</rdf:li>`).join('')}</rdf:Bag></dc:subject>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+function concat(parts: Uint8Array[]) {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+function startsWith(bytes: Uint8Array, offset: number, prefix: string | number[]) {
+  const expected = typeof prefix === 'string' ? encoder.encode(prefix) : prefix;
+  return offset + expected.length <= bytes.length && expected.every((byte, i) => bytes[offset + i] === byte);
+}
+
+// Segments before the image data are copied except earlier XMP packets; the
+// new packet goes after the JFIF and EXIF headers, which readers expect first
+function embedInJpeg(bytes: Uint8Array, xmp: string): Uint8Array | null {
+  const payload = concat([encoder.encode(XMP_NAMESPACE), encoder.encode(xmp)]);
+  // The segment length field counts itself and cannot exceed 0xffff
+  if (payload.length + 2 > 0xffff) return null;
+  const segment = concat([new Uint8Array([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]), payload]);
+
+  const kept: Uint8Array[] = [];
+  let insertAt = 0;
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: the rest of the file is image data
+    if (marker === 0xda) break;
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) return null;
+    const isXmp = marker === 0xe1 && (startsWith(bytes, offset + 4, XMP_NAMESPACE) || startsWith(bytes, offset + 4, XMP_EXTENSION_NAMESPACE));
+    if (!isXmp) {
+      kept.push(bytes.subarray(offset, end));
+      if ((marker === 0xe0 || marker === 0xe1) && insertAt === kept.length - 1) insertAt = kept.length;
+    }
+    offset = end;
+  }
+  if (bytes[offset] !== 0xff || bytes[offset + 1] !== 0xda) return null;
+
+  kept.splice(insertAt, 0, segment);
+  return concat([bytes.subarray(0, 2), ...kept, bytes.subarray(offset)]);
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(bytes: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Uncompressed iTXt chunk: keyword, flags, empty language tags, UTF-8 text
+function iTxtChunk(keyword: string, text: string) {
+  const typeAndData = concat([encoder.encode('iTXt'), encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]);
+  const chunk = new Uint8Array(typeAndData.length + 8);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, typeAndData.length - 4);
+  chunk.set(typeAndData, 4);
+  view.setUint32(chunk.length - 4, crc32(typeAndData));
+  return chunk;
+}
+
+// The text chunks go right after the header chunk; earlier ones with the
+// same keywords are dropped
+function embedInPng(bytes: Uint8Array, xmp: string, fields: EmbeddedFields): Uint8Array | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const kept: Uint8Array[] = [];
+  let offset = PNG_SIGNATURE.length;
+  let ended = false;
+  while (offset + 12 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset);
+    if (end > bytes.length) return null;
+    const type = decoder.decode(bytes.subarray(offset + 4, offset + 8));
+    const keyword = ['tEXt', 'iTXt', 'zTXt'].includes(type)
+      ? decoder.decode(bytes.subarray(offset + 8, Math.min(end - 4, offset + 8 + 80))).split('\0')[0]
+      : '';
+    if (!PNG_TEXT_KEYWORDS.has(keyword)) kept.push(bytes.subarray(offset, end));
+    offset = end;
+    if (type === 'IEND') {
+      ended = true;
+      break;
+    }
+  }
+  if (!ended || !startsWith(kept[0] ?? new Uint8Array(), 4, 'IHDR')) return null;
+
+  const chunks = [iTxtChunk('Title', fields.title), iTxtChunk('Description', fields.description), iTxtChunk(PNG_XMP_KEYWORD, xmp)];
+  return concat([bytes.subarray(0, PNG_SIGNATURE.length), kept[0], ...chunks, ...kept.slice(1)]);
+}
+
+/**
+ * Returns a copy of a JPEG or PNG with the fields written into its metadata,
+ * replacing an earlier XMP packet. Null for other formats and for files that
+ * cannot be parsed; callers then export the file as it is.
+ */
+export function embedMetadata(bytes: Uint8Array, fields: EmbeddedFields): Uint8Array | null {
+  const xmp = buildXmpPacket(fields);
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return embedInJpeg(bytes, xmp);
+  if (startsWith(bytes, 0, PNG_SIGNATURE)) return embedInPng(bytes, xmp, fields);
+  return null;
+}
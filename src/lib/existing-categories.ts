@@ -0,0 +1,87 @@
+import { normalizeCategoryName, UNCATEGORIZED } from "./category-edits";
+import { categoryAncestors, MAX_CATEGORY_DEPTH } from "./category-tree";
+import type { CategoryMap } from "./types";
+
+// Categories that already exist, from earlier runs or an uploaded folder
+// structure. Categorization files new images into them first and only
+// proposes a new category when none fits. Nothing here may import Node-only
+// modules.
+
+export const MAX_EXISTING_CATEGORIES = 300;
+
+export interface ExistingCategory {
+  name: string;
+  // May be empty, e.g. for a bare folder name
+  description: string;
+}
+
+/**
+ * Reads a client-supplied list of category names or `{ name, description }`
+ * objects. Returns null when `value` is not such a list.
+ */
+export function parseExistingCategories(value: unknown): ExistingCategory[] | null {
+  if (value === undefined || value === null || value === '') return [];
+  if (!Array.isArray(value) || value.length > MAX_EXISTING_CATEGORIES) return null;
+  const categories: ExistingCategory[] = [];
+  for (const entry of value) {
+    if (typeof entry === 'string') {
+      categories.push({ name: entry, description: '' });
+    } else if (entry && typeof entry === 'object' && typeof entry.name === 'string') {
+      categories.push({ name: entry.name, description: typeof entry.description === 'string' ? entry.description : '' });
+    } else {
+      return null;
+    }
+  }
+  return mergeExistingCategories(categories);
+}
+
+/**
+ * Normalizes names and drops repeats, ignoring case; the first description
+ * that is not empty wins. Parents of nested categories are added, and
+ * `uncategorized` is never an existing category.
+ */
+export function mergeExistingCategories(...lists: ExistingCategory[][]): ExistingCategory[] {
+  const merged = new Map<string, ExistingCategory>();
+  for (const category of lists.flat()) {
+    const name = normalizeCategoryName(category.name);
+    if (!name || name.toLowerCase() === UNCATEGORIZED) continue;
+    for (const path of [...categoryAncestors(name), name]) {
+      const known = merged.get(path.toLowerCase());
+      if (!known) merged.set(path.toLowerCase(), { name: path, description: path === name ? category.description : '' });
+      else if (!known.description && path === name) known.description = category.description;
+    }
+  }
+  return [...merged.values()];
+}
+
+// Folder paths from a directory upload ("Archive/finance/receipts/a.png"),
+// without the chosen folder itself, as category paths ("finance/receipts")
+export function foldersFromPaths(relativePaths: string[]): string[] {
+  const folders = new Set<string>();
+  for (const relativePath of relativePaths) {
+    const segments = relativePath.split('/').slice(1, -1).filter(segment => !segment.startsWith('.'));
+    if (segments.length > 0) folders.add(segments.slice(0, MAX_CATEGORY_DEPTH).join('/'));
+  }
+  return [...folders].sort((a, b) => a.localeCompare(b));
+}
+
+// The existing category `name` refers to, compared without regard to case
+export function findExistingCategory(name: string, existing: ExistingCategory[]): ExistingCategory | undefined {
+  const key = normalizeCategoryName(name).toLowerCase();
+  return existing.find(category => category.name.toLowerCase() === key);
+}
+
+/**
+ * Marks each category as reused or new, and gives reused ones without a
+ * description the existing one. `uncategorized` is neither, so it stays
+ * unmarked.
+ */
+export function markCategoryOrigins(categories: CategoryMap, existing: ExistingCategory[]): CategoryMap {
+  return Object.fromEntries(Object.entries(categories).map(([name, info]) => {
+    if (name === UNCATEGORIZED) return [name, info];
+    const match = findExistingCategory(name, existing);
+    return [name, match
+      ? { ...info, description: info.description || match.description, origin: 'existing' }
+      : { ...info, origin: 'new' }];
+  }));
+}
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { bestCopy, buildManifest, manifestToCsv, planExportPaths, selectExportedResults, type ExportableResult, type ExportSource } from "./export";
+import type { CaptureMetadata, DuplicateInfo } from "./types";
+
+function result(index: number, overrides: Partial<ExportableResult['analysis']> = {}, extra: Partial<ExportableResult> = {}): ExportableResult {
+  return {
+    index,
+    analysis: { content: 'receipt', category: 'finance', extracted_text: '', main_theme: 'finance', tags: ['finance'], confidence: 80, ...overrides },
+    status: 'success',
+    ...extra
+  };
+}
+
+function metadata(width: number, height: number): CaptureMetadata {
+  return { capturedAt: '2025-03-14T10:00:00.000Z', capturedAtSource: 'exif', width, height, orientation: 'landscape', isScreenshot: true, screenshotHints: [] };
+}
+
+const SOURCES: ExportSource[] = [
+  { name: 'a.png', size: 100 },
+  { name: 'b.jpg', size: 300 },
+  { name: 'c.png', size: 200 },
+  { name: 'd.png', size: 100 }
+];
+
+describe('planExportPaths', () => {
+  it('numbers names that collide in upload order, ignoring case', () => {
+    const results = [result(2), result(0), result(1, { content: 'RECEIPT' }), result(3, { category: 'coding' })];
+    assert.deepEqual([...planExportPaths(results, SOURCES, '{content}')], [
+      [0, 'finance/receipt.png'],
+      [1, 'finance/RECEIPT.jpg'],
+      [2, 'finance/receipt_2.png'],
+      [3, 'coding/receipt.png']
+    ]);
+  });
+
+  it('nests categories and never trusts them as paths', () => {
+    const results = [result(0, { category: 'finance/payslips' }), result(1, { category: '../../etc' }), result(2, { category: '' })];
+    const paths = [...planExportPaths(results, SOURCES, '{content}').values()];
+    assert.equal(paths[0], 'finance/payslips/receipt.png');
+    assert.ok(!paths[1].includes('..'), paths[1]);
+    assert.equal(paths[2], 'uncategorized/receipt.png');
+  });
+
+  it('leaves out results without a source file', () => {
+    assert.deepEqual([...planExportPaths([result(0), result(7)], SOURCES, '{content}').keys()], [0]);
+  });
+});
+
+describe('bestCopy and selectExportedResults', () => {
+  const duplicate = (of: number): DuplicateInfo => ({ of, kind: 'near', distance: 3 });
+
+  it('keeps the copy with the most pixels, then the largest file, then the first', () => {
+    const results = [
+      result(0, {}, { metadata: metadata(800, 600) }),
+      result(1, {}, { metadata: metadata(1600, 1200), duplicate: duplicate(0) }),
+      result(2, {}, { metadata: metadata(800, 600), duplicate: duplicate(0) })
+    ];
+    assert.equal(bestCopy([0, 1, 2], results, SOURCES), 1);
+    assert.equal(bestCopy([0, 2], results, SOURCES), 2);
+    assert.equal(bestCopy([0, 3], [result(0), result(3)], SOURCES), 0);
+  });
+
+  it('drops the other copies of each cluster only in best mode', () => {
+    const results = [result(0), result(1, {}, { duplicate: duplicate(0) }), result(2), result(3, {}, { duplicate: duplicate(2) })];
+    assert.deepEqual(selectExportedResults(results, SOURCES, 'all').map(r => r.index), [0, 1, 2, 3]);
+    assert.deepEqual(selectExportedResults(results, SOURCES, 'best').map(r => r.index), [1, 2]);
+  });
+});
+
+describe('manifestToCsv', () => {
+  const csv = (results: ExportableResult[]) =>
+    manifestToCsv(buildManifest({ results, sources: SOURCES, categories: {}, nameTemplate: '{content}' })).split('\r\n');
+
+  it('writes a header and one row per file', () => {
+    const rows = csv([result(0), result(1)]);
+    assert.ok(rows[0].startsWith('index,original_name,new_path,category,content,extracted_text,'));
+    assert.equal(rows.length, 4);
+    assert.equal(rows[3], '');
+  });
+
+  it('quotes commas, quotes and line breaks', () => {
+    const [, row] = csv([result(0, { extracted_text: 'Total: 1,50 "EUR"\nThanks' })]);
+    assert.ok(row.includes(',"Total: 1,50 ""EUR""\nThanks",'), row);
+  });
+
+  it('defuses cells a spreadsheet would run as a formula', () => {
+    const cells: Array<[string, string]> = [
+      ['+1+1', "'+1+1"],
+      ['-2+3', "'-2+3"],
+      ['@SUM(A1)', "'@SUM(A1)"],
+      ['=HYPERLINK("http://x")', `"'=HYPERLINK(""http://x"")"`]
+    ];
+    for (const [text, cell] of cells) {
+      const [, row] = csv([result(0, { extracted_text: text })]);
+      assert.ok(row.includes(`,${cell},`), row);
+    }
+  });
+});
@@ -0,0 +1,484 @@
+import { normalizeCategoryName, UNCATEGORIZED } from "./category-edits";
+import { buildCategoryTree, type CategoryNode } from "./category-tree";
+import { describeDetails, mapDetailText } from "./extractors";
+import { renderFileName, resolveNameCollisions } from "./naming";
+import { describeFindings, redactionRegions, redactSensitiveText } from "./sensitivity";
+import { filesByTag } from "./tags";
+import { transcriptPath } from "./transcripts";
+import type {
+  CaptureMetadata,
+  CategoryMap,
+  ContentDetails,
+  ContentType,
+  DuplicateInfo,
+  FileType,
+  ParseStatus,
+  RedactionLevel,
+  ResultStatus,
+  RunUsage,
+  SensitiveRegion,
+  SensitivityLevel,
+  SensitivityReport,
+  TokenUsage,
+  Transcript
+} from "./types";
+
+// Export bundle shared by the browser ZIP download and POST /api/export.
+// Nothing here may import Node-only modules.
+
+// Bump when a field of ExportManifest changes meaning or is removed
+export const MANIFEST_VERSION = 1;
+
+export const EXPORT_INDEX_FILES = {
+  manifest: 'manifest.json',
+  csv: 'index.csv',
+  markdown: 'index.md',
+  summary: 'analysis_summary.txt'
+} as const;
+
+// The subset of an analysis result an export needs
+export interface ExportableResult {
+  index: number;
+  analysis: {
+    content: string;
+    category: string;
+    extracted_text: string;
+    main_theme?: string;
+    tags?: string[];
+    content_type?: ContentType;
+    details?: ContentDetails;
+    transcript?: Transcript;
+    confidence: number;
+  };
+  status: ResultStatus;
+  error?: string;
+  parseStatus?: ParseStatus;
+  categorizedBy?: 'rule' | 'model';
+  fileType?: FileType;
+  hash?: string;
+  metadata?: CaptureMetadata;
+  duplicate?: DuplicateInfo;
+  sensitivity?: SensitivityReport;
+  usage?: TokenUsage;
+}
+
+export interface ExportSource {
+  name: string;
+  lastModified?: number;
+  // Bytes; breaks ties when picking the best copy of a duplicate
+  size?: number;
+}
+
+// Whether every copy of a duplicate goes into the export, or only the best one
+export type DuplicateExportMode = 'all' | 'best';
+
+// How flagged images are treated: exported as they are, or with their
+// sensitive regions blurred or blacked out
+export type RedactionMode = 'off' | 'blur' | 'black';
+
+// `omitted`: the file was flagged but could not be redacted (a PDF, or a
+// format that cannot be written back), so it was left out of the bundle
+export type RedactionOutcome = 'applied' | 'omitted';
+
+export interface ManifestFile {
+  index: number;
+  originalName: string;
+  newPath: string;
+  // Path of a small JPEG preview inside the bundle, when one could be made
+  thumbnail: string | null;
+  category: string;
+  content: string;
+  extracted_text: string;
+  main_theme: string | null;
+  tags: string[];
+  content_type: ContentType | null;
+  // Fields read by the content type's extractor
+  details: ContentDetails | null;
+  // Markdown file with the verbatim text, next to the file in the bundle
+  transcript: { path: string; language: string | null } | null;
+  confidence: number;
+  hash: string | null;
+  fileType: FileType;
+  status: ResultStatus;
+  // Why the file could not be analyzed, or only got placeholder values
+  error: string | null;
+  parseStatus: ParseStatus | null;
+  categorizedBy: 'rule' | 'model' | null;
+  metadata: CaptureMetadata | null;
+  duplicate: DuplicateInfo | null;
+  sensitivity: SensitivityLevel | null;
+  // Kinds of sensitive content found, e.g. api_key or card_number
+  sensitiveFindings: string[];
+  redaction: RedactionOutcome | null;
+  // Whether the analysis was written into the exported file's own metadata;
+  // null when the export did not ask for it
+  metadataEmbedded: boolean | null;
+  // Tokens and cost of this file's analysis; null for cache hits and duplicates
+  usage: TokenUsage | null;
+}
+
+export interface ExportManifest {
+  version: typeof MANIFEST_VERSION;
+  generatedAt: string;
+  nameTemplate: string;
+  redaction: RedactionMode;
+  // Lowest sensitivity level that was redacted; null without redaction
+  redactionLevel: RedactionLevel | null;
+  // Whether analyses were written into the exported JPEG and PNG files
+  embedMetadata: boolean;
+  // Token usage of the run that produced the results, when known
+  usage: RunUsage | null;
+  categories: CategoryMap;
+  // New paths of the files under each tag; a file is listed under every tag
+  // it has but exported only once
+  tags: Record<string, string[]>;
+  files: ManifestFile[];
+}
+
+/**
+ * `category/name` path per result index as the template renders it, before
+ * collisions are numbered. Nested categories become nested folders. Results
+ * without a source file are left out; failed and fallback results are
+ * exported like any other, under their category.
+ */
+export function renderExportPaths(results: ExportableResult[], sources: Array<ExportSource | undefined>, nameTemplate: string): Map<number, string> {
+  const exported = results
+    .filter(result => sources[result.index])
+    .sort((a, b) => a.index - b.index);
+  return new Map(exported.map(result => {
+    const source = sources[result.index]!;
+    // Dates come from when the image was captured, not when it was organized
+    const fileName = renderFileName(nameTemplate, {
+      originalName: source.name,
+      content: result.analysis.content,
+      category: result.analysis.category,
+      theme: result.analysis.main_theme,
+      capturedAt: result.metadata?.capturedAt ?? (source.lastModified ? new Date(source.lastModified).toISOString() : null),
+      index: result.index
+    });
+    // Categories can come from clients, so they are never trusted as paths
+    return [result.index, `${normalizeCategoryName(result.analysis.category) || UNCATEGORIZED}/${fileName}`];
+  }));
+}
+
+// Final path per result index, with collisions suffixed in upload order
+export function planExportPaths(results: ExportableResult[], sources: Array<ExportSource | undefined>, nameTemplate: string): Map<number, string> {
+  const rendered = renderExportPaths(results, sources, nameTemplate);
+  const paths = resolveNameCollisions([...rendered.values()]);
+  return new Map([...rendered.keys()].map((index, i) => [index, paths[i]]));
+}
+
+/**
+ * Duplicate clusters keyed by the representative's index. Each member list
+ * starts with the representative; uploads without copies are left out.
+ */
+export function duplicateClusters(results: ExportableResult[]): Map<number, number[]> {
+  const clusters = new Map<number, number[]>();
+  for (const result of results) {
+    if (!result.duplicate) continue;
+    const members = clusters.get(result.duplicate.of) ?? [result.duplicate.of];
+    members.push(result.index);
+    clusters.set(result.duplicate.of, members);
+  }
+  return clusters;
+}
+
+/**
+ * The copy to keep from a cluster: the most pixels, then the largest file,
+ * then the earliest upload.
+ */
+export function bestCopy(members: number[], results: ExportableResult[], sources: Array<ExportSource | undefined>): number {
+  const score = (index: number) => {
+    const metadata = results.find(result => result.index === index)?.metadata;
+    return [(metadata?.width ?? 0) * (metadata?.height ?? 0), sources[index]?.size ?? 0];
+  };
+  return [...members].sort((a, b) => {
+    const [pixelsA, sizeA] = score(a);
+    const [pixelsB, sizeB] = score(b);
+    return pixelsB - pixelsA || sizeB - sizeA || a - b;
+  })[0];
+}
+
+// Results to export; with 'best', the other copies of each cluster are dropped
+export function selectExportedResults<R extends ExportableResult>(results: R[], sources: Array<ExportSource | undefined>, mode: DuplicateExportMode): R[] {
+  if (mode === 'all') return results;
+  const dropped = new Set<number>();
+  for (const members of duplicateClusters(results).values()) {
+    const keep = bestCopy(members, results, sources);
+    members.filter(index => index !== keep).forEach(index => dropped.add(index));
+  }
+  return results.filter(result => !dropped.has(result.index));
+}
+
+// Regions to cover in an exported file, or null when it goes in as it is
+export function exportRedaction(result: ExportableResult, mode: RedactionMode, minLevel: RedactionLevel): SensitiveRegion[] | null {
+  return mode === 'off' ? null : redactionRegions(result.sensitivity, minLevel);
+}
+
+// Previews live under thumbnails/ with the same relative path as the file
+export function thumbnailPath(newPath: string) {
+  return `thumbnails/${newPath.replace(/\.[^./]+$/, '')}.jpg`;
+}
+
+export function buildManifest(options: {
+  results: ExportableResult[];
+  sources: Array<ExportSource | undefined>;
+  categories: CategoryMap;
+  nameTemplate: string;
+  // Result indexes that have a preview at thumbnailPath(newPath)
+  thumbnails?: Set<number>;
+  redaction?: { mode: RedactionMode; minLevel: RedactionLevel; outcomes: Map<number, RedactionOutcome> };
+  // Result indexes whose file got its analysis embedded; undefined when the
+  // export does not embed metadata
+  embedded?: Set<number>;
+  usage?: RunUsage | null;
+}): ExportManifest {
+  const paths = planExportPaths(options.results, options.sources, options.nameTemplate);
+  const redactionMode = options.redaction?.mode ?? 'off';
+  const files = [...paths].map(([index, newPath]): ManifestFile => {
+    const result = options.results.find(r => r.index === index)!;
+    return {
+      index,
+      originalName: options.sources[index]!.name,
+      newPath,
+      thumbnail: options.thumbnails?.has(index) ? thumbnailPath(newPath) : null,
+      category: result.analysis.category,
+      content: result.analysis.content,
+      // Secrets in the text would otherwise end up in every index
+      extracted_text: redactionMode === 'off' ? result.analysis.extracted_text : redactSensitiveText(result.analysis.extracted_text),
+      main_theme: result.analysis.main_theme ?? null,
+      tags: result.analysis.tags ?? [],
+      content_type: result.analysis.content_type ?? null,
+      details: result.analysis.details
+        ? (redactionMode === 'off' ? result.analysis.details : mapDetailText(result.analysis.details, redactSensitiveText))
+        : null,
+      // Omitted files leave out their transcript too
+      transcript: result.analysis.transcript && options.redaction?.outcomes.get(index) !== 'omitted'
+        ? { path: transcriptPath(newPath), language: result.analysis.transcript.language }
+        : null,
+      confidence: result.analysis.confidence,
+      hash: result.hash ?? null,
+      fileType: result.fileType ?? 'image',
+      status: result.status,
+      error: result.error ?? null,
+      parseStatus: result.parseStatus ?? null,
+      categorizedBy: result.categorizedBy ?? null,
+      metadata: result.metadata ?? null,
+      duplicate: result.duplicate ?? null,
+      sensitivity: result.sensitivity?.level ?? null,
+      sensitiveFindings: describeFindings(result.sensitivity).split(', ').filter(Boolean),
+      redaction: options.redaction?.outcomes.get(index) ?? null,
+      metadataEmbedded: options.embedded ? options.embedded.has(index) : null,
+      usage: result.usage ?? null
+    };
+  });
+
+  return {
+    version: MANIFEST_VERSION,
+    generatedAt: new Date().toISOString(),
+    nameTemplate: options.nameTemplate,
+    redaction: redactionMode,
+    redactionLevel: redactionMode === 'off' ? null : options.redaction!.minLevel,
+    embedMetadata: options.embedded !== undefined,
+    usage: options.usage ?? null,
+    categories: options.categories,
+    tags: filesByTag(files),
+    files
+  };
+}
+
+export function describeCapture(metadata: CaptureMetadata | null | undefined) {
+  if (!metadata) return 'Unknown';
+  const parts = [
+    metadata.capturedAt ? `${metadata.capturedAt.replace('T', ' ').slice(0, 16)} (${metadata.capturedAtSource})` : 'Unknown date',
+    metadata.width && metadata.height ? `${metadata.width}×${metadata.height} ${metadata.orientation}` : null,
+    metadata.device || null,
+    metadata.isScreenshot ? `screenshot (${metadata.screenshotHints.join(', ')})` : null
+  ];
+  return parts.filter(Boolean).join(' • ');
+}
+
+export function describeUsage(usage: TokenUsage | null | undefined) {
+  if (!usage) return 'no model request';
+  const cost = usage.costUsd === null ? 'cost unknown' : `$${usage.costUsd.toFixed(4)}`;
+  const requests = usage.sharedBy
+    ? `share of a ${usage.sharedBy}-image request`
+    : `${usage.requests} request${usage.requests === 1 ? '' : 's'}`;
+  return `${usage.inputTokens.toLocaleString('en-US')} in / ${usage.outputTokens.toLocaleString('en-US')} out tokens, ${requests}, ${cost}`;
+}
+
+function usageSummary(usage: RunUsage | null) {
+  if (!usage) return '';
+  return `
+Model Usage (${usage.model}, ${usage.batchSize === 1 ? 'one image per request' : `up to ${usage.batchSize} images per request`}):
+  Analysis: ${describeUsage(usage.analysis)}
+  Categorization: ${describeUsage(usage.categorization)}
+  Total: ${describeUsage(usage.total)}${usage.batchFallbacks > 0 ? `
+  Batches re-sent one image at a time: ${usage.batchFallbacks}` : ''}
+`;
+}
+
+function statusSummary(files: ManifestFile[]) {
+  const failed = files.filter(file => file.status === 'failed').length;
+  const fallback = files.filter(file => file.status === 'fallback').length;
+  return failed + fallback > 0 ? ` (${failed} failed, ${fallback} with placeholder values)` : '';
+}
+
+// One line, e.g. "Merchant: Corner Market; Amount: 23.40 USD"
+function formatDetails(details: ContentDetails | null | undefined) {
+  return describeDetails(details).map(({ label, value }) => `${label}: ${value}`).join('; ');
+}
+
+const CSV_COLUMNS = [
+  'index', 'original_name', 'new_path', 'category', 'content', 'extracted_text', 'main_theme', 'confidence',
+  'hash', 'file_type', 'captured_at', 'captured_at_source', 'width', 'height', 'device', 'is_screenshot', 'parse_status',
+  'duplicate_of', 'sensitivity', 'sensitive_findings', 'redaction', 'status', 'error', 'tags', 'metadata_embedded',
+  'content_type', 'details', 'transcript'
+] as const;
+
+// RFC 4180 quoting; cells that a spreadsheet would run as a formula get a
+// leading apostrophe, since extracted text comes from untrusted images
+function csvCell(value: unknown) {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function manifestToCsv(manifest: ExportManifest): string {
+  const rows = manifest.files.map(file => [
+    file.index,
+    file.originalName,
+    file.newPath,
+    file.category,
+    file.content,
+    file.extracted_text,
+    file.main_theme,
+    file.confidence,
+    file.hash,
+    file.fileType,
+    file.metadata?.capturedAt,
+    file.metadata?.capturedAtSource,
+    file.metadata?.width,
+    file.metadata?.height,
+    file.metadata?.device,
+    file.metadata?.isScreenshot,
+    file.parseStatus,
+    file.duplicate?.of,
+    file.sensitivity,
+    file.sensitiveFindings.join(' '),
+    file.redaction,
+    file.status,
+    file.error,
+    file.tags.join(' '),
+    file.metadataEmbedded,
+    file.content_type,
+    formatDetails(file.details),
+    file.transcript?.path
+  ]);
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function markdownText(value: string) {
+  return value.replace(/([\\`*_[\]<>|#])/g, '\\$1').replace(/\s+/g, ' ').trim();
+}
+
+// Links need spaces and brackets encoded; slashes stay readable
+function markdownLink(path: string) {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+// Nested categories get one heading level per level of nesting
+export function manifestToMarkdown(manifest: ExportManifest): string {
+  const section = (node: CategoryNode, depth: number): string => {
+    const files = manifest.files.filter(file => file.category === node.path);
+    const children = node.children.map(child => section(child, depth + 1)).filter(Boolean);
+    if (files.length === 0 && children.length === 0) return '';
+    const heading = `${'#'.repeat(Math.min(6, depth + 2))} ${markdownText(node.path)}`;
+    const description = node.description ? `\n\n${markdownText(node.description)}` : '';
+    if (files.length === 0) {
+      return [`${heading}${description}\n`, ...children].join('\n');
+    }
+    const rows = files.map(file => {
+      const preview = file.thumbnail
+        ? `[![${markdownText(file.content)}](${markdownLink(file.thumbnail)})](${markdownLink(file.newPath)})`
+        : '';
+      const text = file.extracted_text ? markdownText(file.extracted_text.substring(0, 120)) : '';
+      const flag = file.sensitivity && file.sensitivity !== 'none' ? ` 🔒 ${file.sensitivity}` : '';
+      const link = file.redaction === 'omitted'
+        ? `${markdownText(file.newPath.split('/').pop()!)} (left out: could not be redacted)`
+        : `[${markdownText(file.newPath.split('/').pop()!)}](${markdownLink(file.newPath)})${file.transcript ? ` ([transcript](${markdownLink(file.transcript.path)}))` : ''}`;
+      const tags = file.tags.map(tag => `\\#${markdownText(tag)}`).join(' ');
+      const details = file.details ? `<br>${markdownText(formatDetails(file.details))}` : '';
+      return `| ${preview} | ${link} | ${markdownText(file.content)}${flag}${details} | ${tags} | ${text} | ${markdownText(describeCapture(file.metadata))} |`;
+    });
+    return [`${heading} (${files.length})${description}
+
+| Preview | File | Content | Tags | Text | Captured |
+| --- | --- | --- | --- | --- | --- |
+${rows.join('\n')}
+`, ...children].join('\n');
+  };
+  const sections = buildCategoryTree(manifest.categories).map(root => section(root, 0));
+  // Files with several tags are linked from each of them
+  const tagSections = Object.entries(manifest.tags).map(([tag, paths]) =>
+    `- **${markdownText(tag)}** (${paths.length}): ${paths.map(path => `[${markdownText(path.split('/').pop()!)}](${markdownLink(path)})`).join(', ')}`
+  );
+
+  return `# Organized files
+
+Generated ${manifest.generatedAt} • ${manifest.files.length} files • manifest version ${manifest.version}
+
+${sections.filter(Boolean).join('\n')}${tagSections.length > 0 ? `
+## By tag
+
+${tagSections.join('\n')}
+` : ''}`;
+}
+
+export function manifestToSummary(manifest: ExportManifest): string {
+  const categoryNames = Object.keys(manifest.categories);
+  return `Image Analysis Summary
+Generated: ${manifest.generatedAt}
+
+Total Images Analyzed: ${manifest.files.length}${statusSummary(manifest.files)}
+Categories Created: ${categoryNames.join(', ')}
+${usageSummary(manifest.usage)}
+Category Details:
+${categoryNames.map(catName => {
+  const categoryInfo = manifest.categories[catName];
+  return `
+${catName}:
+  Description: ${categoryInfo.description}
+  Images: ${categoryInfo.images.length} files
+`;
+}).join('')}
+
+Detailed Results:
+${manifest.files.map((file, index) => `
+${index + 1}. ${file.originalName}
+   Category: ${file.category}
+   Content: ${file.content}
+   Tags: ${file.tags.join(', ') || 'None'}${file.details ? `
+   Details: ${formatDetails(file.details)}` : ''}
+   Extracted Text: ${file.extracted_text || 'None'}
+   Confidence: ${file.confidence}%
+   Captured: ${describeCapture(file.metadata)}
+   New Path: ${file.newPath}${file.transcript ? `
+   Transcript: ${file.transcript.path}` : ''}${file.status !== 'success' ? `
+   Status: ${file.status}${file.error ? ` (${file.error})` : ''}` : ''}${file.sensitivity && file.sensitivity !== 'none' ? `
+   Sensitive: ${file.sensitivity} (${file.sensitiveFindings.join(', ')})${file.redaction ? `, redaction ${file.redaction}` : ''}` : ''}${manifest.usage ? `
+   Model Usage: ${describeUsage(file.usage)}` : ''}
+`).join('')}
+`;
+}
+
+/**
+ * Adds the manifest, CSV, Markdown index and plain-text summary to `zip`.
+ * The organized files and thumbnails are added by the caller.
+ */
+export function addExportIndexes(zip: { file(path: string, data: string): unknown }, manifest: ExportManifest) {
+  zip.file(EXPORT_INDEX_FILES.manifest, JSON.stringify(manifest, null, 2));
+  zip.file(EXPORT_INDEX_FILES.csv, manifestToCsv(manifest));
+  zip.file(EXPORT_INDEX_FILES.markdown, manifestToMarkdown(manifest));
+  zip.file(EXPORT_INDEX_FILES.summary, manifestToSummary(manifest));
+}
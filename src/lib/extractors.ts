@@ -0,0 +1,233 @@
+import type { JsonSchema } from "./schemas";
+import type { ContentDetails, ContentType } from "./types";
+
+// Type-specific extraction. Phase 1 names the content type and, in the same
+// answer, reads the fields of a type listed here into "details". Nothing here
+// may import Node-only modules: the UI and exports describe the details too.
+
+interface Extractor {
+  // How phase 1 recognizes the type
+  description: string;
+  // Example answer, shown to the model like the phase-1 fields
+  fields: string;
+  instructions: string;
+  properties: Record<string, JsonSchema>;
+}
+
+const MAX_LIST_ITEMS = 20;
+
+export const EXTRACTORS: Record<ContentType, Extractor> = {
+  error: {
+    description: 'an error message, exception, stack trace or crash report',
+    fields: `  "language": "programming language or runtime, e.g. javascript, python, java",
+  "error_class": "error or exception class, e.g. TypeError",
+  "message": "the error message, without the class name",
+  "stack_frames": ["one entry per visible stack frame, top first, e.g. at render (App.jsx:12:5)"]`,
+    instructions: 'Copy the message and frames exactly as shown.',
+    properties: {
+      language: { type: 'string' },
+      error_class: { type: 'string' },
+      message: { type: 'string' },
+      stack_frames: { type: 'array', items: { type: 'string' } }
+    }
+  },
+  code: {
+    description: 'source code in an editor, a code snippet or a diff',
+    fields: `  "language": "programming language, e.g. typescript, python, sql",
+  "file_name": "name of the open file or editor tab"`,
+    instructions: 'Take the file name from the tab or title bar.',
+    properties: {
+      language: { type: 'string' },
+      file_name: { type: 'string' }
+    }
+  },
+  terminal: {
+    description: 'a terminal session, command output or log file',
+    fields: `  "shell": "shell or program, e.g. bash, zsh, powershell, docker logs",
+  "commands": ["each command typed at a prompt, without the prompt itself"]`,
+    instructions: 'List the commands in the order they were run.',
+    properties: {
+      shell: { type: 'string' },
+      commands: { type: 'array', items: { type: 'string' } }
+    }
+  },
+  receipt: {
+    description: 'a receipt, invoice, bill or payslip',
+    fields: `  "merchant": "shop, company or employer that issued it",
+  "date": "date of the purchase or pay period end as YYYY-MM-DD",
+  "amount": 23.4,
+  "currency": "ISO 4217 code, e.g. EUR or USD"`,
+    instructions: 'For "amount" use the total paid, or the net pay of a payslip, as a plain number. Leave "amount" out when no total is visible.',
+    properties: {
+      merchant: { type: 'string' },
+      date: { type: 'string' },
+      amount: { type: 'number' },
+      currency: { type: 'string' }
+    }
+  },
+  chat: {
+    description: 'a chat or messaging conversation',
+    fields: `  "platform": "messaging app, e.g. whatsapp, slack, imessage, teams, discord",
+  "participants": ["names or handles of the people in the conversation"]`,
+    instructions: 'List each participant once.',
+    properties: {
+      platform: { type: 'string' },
+      participants: { type: 'array', items: { type: 'string' } }
+    }
+  },
+  web_page: {
+    description: 'a web page or web app in a browser',
+    fields: `  "url": "the full address from the address bar",
+  "domain": "the site's domain, e.g. example.com",
+  "title": "the page title or main heading"`,
+    instructions: 'Read the address bar when it is visible.',
+    properties: {
+      url: { type: 'string' },
+      domain: { type: 'string' },
+      title: { type: 'string' }
+    }
+  }
+};
+
+export const CONTENT_TYPES = Object.keys(EXTRACTORS) as ContentType[];
+
+export function isContentType(value: unknown): value is ContentType {
+  return typeof value === 'string' && CONTENT_TYPES.includes(value as ContentType);
+}
+
+// For the phase-1 "content_type" field
+export function describeContentTypes() {
+  return `${CONTENT_TYPES.map(type => `"${type}" for ${EXTRACTORS[type].description}`).join(', ')}, otherwise "other"`;
+}
+
+// The "details" field of a phase-1 answer. Types share one object so that a
+// batched answer needs no per-image schema; every field is optional.
+export const DETAILS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: Object.assign({}, ...CONTENT_TYPES.map(type => EXTRACTORS[type].properties))
+};
+
+// For the phase-1 "details" field: each type's fields and how to read them
+export function describeDetailFields() {
+  return CONTENT_TYPES.map(type => `For "${type}":
+{
+${EXTRACTORS[type].fields}
+}
+${EXTRACTORS[type].instructions}`).join('\n\n');
+}
+
+function text(value: unknown) {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function list(value: unknown) {
+  const items = Array.isArray(value) ? value.map(text).filter((item): item is string => item !== null) : [];
+  return [...new Set(items)].slice(0, MAX_LIST_ITEMS);
+}
+
+// Address bars often hide the scheme
+function hostOf(url: string) {
+  try {
+    return new URL(/^[a-z]+:\/\//i.test(url) ? url : `https://${url}`).hostname;
+  } catch {
+    return null;
+  }
+}
+
+function domainOf(url: string | null, domain: string | null) {
+  const host = domain ?? (url ? hostOf(url) : null);
+  return host ? host.toLowerCase().replace(/^www\./, '') : null;
+}
+
+/**
+ * Normalizes an extractor's answer, or details sent back by a client, into
+ * the type's fields. Dates, currencies and amounts that do not parse become
+ * null. Returns undefined for an unknown type.
+ */
+export function toDetails(type: unknown, value: unknown): ContentDetails | undefined {
+  const answer = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  switch (isContentType(type) ? type : undefined) {
+    case 'error':
+      return {
+        type: 'error',
+        language: text(answer.language)?.toLowerCase() ?? null,
+        error_class: text(answer.error_class),
+        message: text(answer.message),
+        stack_frames: list(answer.stack_frames)
+      };
+    case 'code':
+      return { type: 'code', language: text(answer.language)?.toLowerCase() ?? null, file_name: text(answer.file_name) };
+    case 'terminal':
+      return { type: 'terminal', shell: text(answer.shell)?.toLowerCase() ?? null, commands: list(answer.commands) };
+    case 'receipt': {
+      const date = text(answer.date);
+      const currency = text(answer.currency)?.toUpperCase() ?? null;
+      return {
+        type: 'receipt',
+        merchant: text(answer.merchant),
+        date: date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : null,
+        amount: typeof answer.amount === 'number' && Number.isFinite(answer.amount) ? answer.amount : null,
+        currency: currency && /^[A-Z]{3}$/.test(currency) ? currency : null
+      };
+    }
+    case 'chat':
+      return { type: 'chat', platform: text(answer.platform)?.toLowerCase() ?? null, participants: list(answer.participants) };
+    case 'web_page': {
+      const url = text(answer.url);
+      return { type: 'web_page', url, domain: domainOf(url, text(answer.domain)), title: text(answer.title) };
+    }
+    default:
+      return undefined;
+  }
+}
+
+// Label and value of every field that was read, for the UI and the indexes
+export function describeDetails(details: ContentDetails | null | undefined): Array<{ label: string; value: string }> {
+  if (!details) return [];
+  const fields: Array<[string, string | null]> = [];
+  switch (details.type) {
+    case 'error':
+      fields.push(['Language', details.language], ['Error', details.error_class], ['Message', details.message], ['Stack', details.stack_frames.join('; ') || null]);
+      break;
+    case 'code':
+      fields.push(['Language', details.language], ['File', details.file_name]);
+      break;
+    case 'terminal':
+      fields.push(['Shell', details.shell], ['Commands', details.commands.join('; ') || null]);
+      break;
+    case 'receipt':
+      fields.push(
+        ['Merchant', details.merchant],
+        ['Date', details.date],
+        ['Amount', details.amount === null ? null : `${details.amount.toFixed(2)}${details.currency ? ` ${details.currency}` : ''}`]
+      );
+      if (details.amount === null) fields.push(['Currency', details.currency]);
+      break;
+    case 'chat':
+      fields.push(['Platform', details.platform], ['Participants', details.participants.join(', ') || null]);
+      break;
+    case 'web_page':
+      fields.push(['Domain', details.domain], ['Title', details.title], ['URL', details.url]);
+      break;
+  }
+  return fields.filter((field): field is [string, string] => field[1] !== null).map(([label, value]) => ({ label, value }));
+}
+
+// Applies `transform` to every text field, e.g. to mask secrets for an export
+export function mapDetailText(details: ContentDetails, transform: (value: string) => string): ContentDetails {
+  const map = (value: string | null) => value === null ? null : transform(value);
+  switch (details.type) {
+    case 'error':
+      return { ...details, language: map(details.language), error_class: map(details.error_class), message: map(details.message), stack_frames: details.stack_frames.map(transform) };
+    case 'code':
+      return { ...details, language: map(details.language), file_name: map(details.file_name) };
+    case 'terminal':
+      return { ...details, shell: map(details.shell), commands: details.commands.map(transform) };
+    case 'receipt':
+      return { ...details, merchant: map(details.merchant), date: map(details.date), currency: map(details.currency) };
+    case 'chat':
+      return { ...details, platform: map(details.platform), participants: details.participants.map(transform) };
+    case 'web_page':
+      return { ...details, url: map(details.url), domain: map(details.domain), title: map(details.title) };
+  }
+}
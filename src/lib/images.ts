@@ -0,0 +1,62 @@
+import sharp from 'sharp';
+
+// Every image goes through sharp before it is hashed and sent to a model:
+// the format is read from the bytes rather than trusted from the upload,
+// EXIF rotation is applied, animations are cut to their first frame and large
+// images are downscaled.
+
+// Longest side, in pixels, of the image sent to the model
+export const IMAGE_MAX_EDGE = Number(process.env.IMAGE_MAX_EDGE) || 2048;
+
+const JPEG_QUALITY = 85;
+
+// Sources that were already lossy are re-encoded as JPEG; screenshots and
+// other lossless images become PNG so small text keeps its sharp edges
+const LOSSY_FORMATS = new Set(['jpeg', 'heif']); // sharp reports AVIF as heif
+
+export interface NormalizedImage {
+  buffer: Buffer;
+  mimeType: 'image/jpeg' | 'image/png';
+  // Format detected from the original bytes (png, webp, gif, heif, ...)
+  sourceFormat: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Decodes, orients, downscales and re-encodes an image. Returns undefined
+ * when the bytes are not an image sharp can decode.
+ */
+export async function normalizeImage(input: Buffer): Promise<NormalizedImage | undefined> {
+  let format: string | undefined;
+  try {
+    ({ format } = await sharp(input).metadata());
+  } catch {
+    return undefined;
+  }
+  if (!format) return undefined;
+
+  const lossy = LOSSY_FORMATS.has(format);
+  try {
+    // `pages: 1` keeps only the first frame of animated GIF and WebP images
+    const pipeline = sharp(input, { pages: 1 })
+      .rotate()
+      .resize({ width: IMAGE_MAX_EDGE, height: IMAGE_MAX_EDGE, fit: 'inside', withoutEnlargement: true });
+    const { data, info } = await (lossy
+      ? pipeline.flatten({ background: '#ffffff' }).jpeg({ quality: JPEG_QUALITY })
+      : pipeline.png()
+    ).toBuffer({ resolveWithObject: true });
+
+    return {
+      buffer: data,
+      mimeType: lossy ? 'image/jpeg' : 'image/png',
+      sourceFormat: format,
+      width: info.width,
+      height: info.height
+    };
+  } catch (error) {
+    // The header was readable but the image data is not, e.g. a truncated file
+    console.error(`Could not decode ${format} image:`, error);
+    return undefined;
+  }
+}
@@ -0,0 +1,164 @@
+import { randomUUID } from "crypto";
+import type { ExistingCategory } from "./existing-categories";
+import { addToLibrary, saveLibraryThumbnails } from "./library";
+import { analyzeItems, buildResults, categorizeAnalyses, prepareItems, resolveBatchSize, type AnalysisResult } from "./pipeline";
+import { getProvider } from "./providers";
+import type { CategoryMap, ImageAnalysis, OrganizationProfile, ParseStatus, RunUsage } from "./types";
+import { addCounts, createUsageMeter, summarizeUsage } from "./usage";
+
+export const MAX_JOB_ITEMS = Number(process.env.JOB_MAX_ITEMS) || 1000;
+const JOB_CHUNK_SIZE = Number(process.env.JOB_CHUNK_SIZE) || 25;
+const JOB_CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 4;
+// Finished jobs are kept this long so clients can still fetch their results
+const JOB_TTL_MS = 60 * 60 * 1000;
+
+// `preparing`: uploads are being normalized, rendered (PDFs) and hashed
+export type JobStatus = 'queued' | 'preparing' | 'analyzing' | 'categorizing' | 'completed' | 'failed';
+
+// Uploads as received; they are only prepared once the job runs
+export interface JobInput {
+  files: File[];
+  imageDataUrls: string[];
+  lastModified: Array<number | undefined>;
+}
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  createdAt: number;
+  updatedAt: number;
+  userPrompt?: string;
+  // Resolved when the job is created so later profile edits do not affect it
+  profile?: OrganizationProfile;
+  // Categories to reuse, library ones included, also resolved at creation
+  existingCategories: ExistingCategory[];
+  useCache: boolean;
+  batchSize: number;
+  transcribe: boolean;
+  // Uploads until they are prepared, then prepared items (files that are
+  // neither an image nor a PDF are dropped)
+  total: number;
+  processed: number;
+  // Phase-1 analyses in upload order; null until that item has been analyzed
+  analyses: Array<ImageAnalysis | null>;
+  results?: AnalysisResult[];
+  categories?: CategoryMap;
+  categoriesParseStatus?: ParseStatus;
+  // Set once the job has completed
+  usage?: RunUsage;
+  error?: string;
+}
+
+// Kept on globalThis so jobs survive module reloads in `next dev`
+const globalStore = globalThis as typeof globalThis & { __organizerJobs?: Map<string, Job> };
+const jobs = globalStore.__organizerJobs ??= new Map<string, Job>();
+
+function pruneExpiredJobs() {
+  const cutoff = Date.now() - JOB_TTL_MS;
+  for (const [id, job] of jobs) {
+    if ((job.status === 'completed' || job.status === 'failed') && job.updatedAt < cutoff) {
+      jobs.delete(id);
+    }
+  }
+}
+
+function updateJob(job: Job, changes: Partial<Job>) {
+  Object.assign(job, changes, { updatedAt: Date.now() });
+}
+
+async function runJob(job: Job, input: JobInput) {
+  try {
+    updateJob(job, { status: 'preparing' });
+    const items = await prepareItems(input.files, input.imageDataUrls, input.lastModified);
+    if (items.length === 0) throw new Error('No images provided');
+
+    const provider = getProvider();
+    const meter = createUsageMeter();
+    updateJob(job, { status: 'analyzing', total: items.length, analyses: new Array(items.length).fill(null) });
+
+    // Chunks bound how many prepared images are waiting on the model at once;
+    // within a chunk at most JOB_CONCURRENCY calls run in parallel
+    for (let start = 0; start < items.length; start += JOB_CHUNK_SIZE) {
+      const chunk = items.slice(start, start + JOB_CHUNK_SIZE);
+      const chunkAnalyses = await analyzeItems(provider, chunk, {
+        startIndex: start,
+        concurrency: JOB_CONCURRENCY,
+        known: job.analyses.slice(0, start) as ImageAnalysis[],
+        useCache: job.useCache,
+        batchSize: job.batchSize,
+        transcribe: job.transcribe,
+        usage: meter,
+        onAnalysis: analysis => {
+          job.analyses[analysis.index] = analysis;
+          // Drop the image payload as soon as it has been analyzed
+          items[analysis.index] = { ...items[analysis.index], data: undefined };
+          updateJob(job, { processed: job.processed + 1 });
+        }
+      });
+      // `chunk` still holds the image data dropped from `items` above
+      await saveLibraryThumbnails(chunk, chunkAnalyses);
+    }
+
+    updateJob(job, { status: 'categorizing' });
+    const analyses = job.analyses as ImageAnalysis[];
+    const { categories, parseStatus, ruleAssigned, usage } = await categorizeAnalyses(provider, analyses, job.userPrompt, job.profile, job.existingCategories);
+    addCounts(meter.categorization, usage);
+    const results = buildResults(analyses, categories, ruleAssigned);
+    await addToLibrary(results, categories);
+    updateJob(job, {
+      status: 'completed',
+      categories,
+      categoriesParseStatus: parseStatus,
+      results,
+      usage: summarizeUsage(provider, meter, job.batchSize)
+    });
+  } catch (error) {
+    console.error(`Job ${job.id} failed:`, error);
+    updateJob(job, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Registers a job for the uploads and starts preparing and processing them
+ * in the background, so the caller can answer right away. The returned job
+ * is updated in place as work progresses.
+ */
+export function createJob(
+  input: JobInput,
+  options: {
+    userPrompt?: string;
+    profile?: OrganizationProfile;
+    existingCategories?: ExistingCategory[];
+    useCache?: boolean;
+    batchSize?: number;
+    transcribe?: boolean;
+  } = {}
+): Job {
+  pruneExpiredJobs();
+
+  const now = Date.now();
+  const job: Job = {
+    id: randomUUID(),
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+    userPrompt: options.userPrompt,
+    profile: options.profile,
+    existingCategories: options.existingCategories ?? [],
+    useCache: options.useCache !== false,
+    batchSize: resolveBatchSize(options.batchSize),
+    transcribe: options.transcribe === true,
+    total: input.files.length + input.imageDataUrls.length,
+    processed: 0,
+    analyses: []
+  };
+  jobs.set(job.id, job);
+
+  // Started on the next turn so the caller answers with the job still queued
+  setImmediate(() => void runJob(job, input));
+  return job;
+}
+
+export function getJob(id: string): Job | undefined {
+  return jobs.get(id);
+}
@@ -0,0 +1,267 @@
+import { promises as fs } from "fs";
+import sharp from 'sharp';
+import { UNCATEGORIZED } from "./category-edits";
+import { MAX_EXISTING_CATEGORIES, mergeExistingCategories, type ExistingCategory } from "./existing-categories";
+import type { AnalysisResult, PipelineItem } from "./pipeline";
+import { redactImage } from "./redaction";
+import { redactionRegions, redactSensitiveText } from "./sensitivity";
+import { dataPath, readJsonFile, writeJsonFile } from "./storage";
+import type { CategoryMap, FileType, ImageAnalysis, LibraryEntry } from "./types";
+
+// Persistent library of everything analyzed, so results outlive the browser
+// tab. Entries are keyed by content hash: analyzing the same file again
+// updates its entry with the latest category.
+
+// Set LIBRARY=off to stop recording; existing entries stay searchable
+export const LIBRARY_ENABLED = process.env.LIBRARY !== 'off';
+
+const LIBRARY_DIR = dataPath('library');
+const ENTRIES_FILE = dataPath('library', 'entries.json');
+// Latest description per category name, for reusing categories in later runs
+const CATEGORIES_FILE = dataPath('library', 'categories.json');
+const THUMBNAIL_WIDTH = 320;
+
+const SEARCH_FIELD_WEIGHTS = {
+  content: 3,
+  category: 3,
+  main_theme: 2,
+  tags: 2,
+  fileName: 2,
+  extracted_text: 1
+} as const;
+
+export const MAX_SEARCH_LIMIT = 200;
+
+export interface LibraryQuery {
+  // Words that must all appear; "quoted phrases" are matched as a whole
+  q?: string;
+  category?: string;
+  theme?: string;
+  fileType?: FileType;
+  // Inclusive YYYY-MM-DD bounds on the capture date (or when first analyzed)
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface LibraryFacet {
+  name: string;
+  count: number;
+}
+
+export interface LibrarySearchResult {
+  total: number;
+  entries: Array<LibraryEntry & { score: number }>;
+  // Counts among the entries matching the text and date filters
+  facets: { categories: LibraryFacet[]; themes: LibraryFacet[] };
+}
+
+// Entries are read, changed and written back as a whole; requests finishing
+// at the same time would otherwise overwrite each other's changes
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+async function readEntries(): Promise<Record<string, LibraryEntry>> {
+  return (await readJsonFile<Record<string, LibraryEntry>>(ENTRIES_FILE)) ?? {};
+}
+
+function updateEntries(change: (entries: Record<string, LibraryEntry>) => Promise<void> | void) {
+  const next = writeQueue.then(async () => {
+    const entries = await readEntries();
+    await change(entries);
+    await writeJsonFile(ENTRIES_FILE, entries);
+  });
+  writeQueue = next.catch(() => undefined);
+  return next;
+}
+
+function isContentHash(hash: string) {
+  return /^[0-9a-f]{64}$/.test(hash);
+}
+
+function thumbnailFile(hash: string) {
+  return dataPath('library', 'thumbnails', `${hash}.jpg`);
+}
+
+async function exists(filePath: string) {
+  return fs.access(filePath).then(() => true, () => false);
+}
+
+/**
+ * Stores a JPEG preview per analyzed item that has an image (PDFs use their
+ * rendered first page). Sensitive regions are blurred in the preview. Call
+ * after phase 1, while the items still carry their image data.
+ */
+export async function saveLibraryThumbnails(items: PipelineItem[], analyses: ImageAnalysis[]) {
+  if (!LIBRARY_ENABLED) return;
+  for (const [offset, item] of items.entries()) {
+    const analysis = analyses[offset];
+    if (!item.data || !item.hash || !analysis || analysis.parseStatus === 'fallback') continue;
+    try {
+      const file = thumbnailFile(item.hash);
+      if (await exists(file)) continue;
+      let thumbnail = await sharp(Buffer.from(item.data.replace(/^data:[^,]*,/, ''), 'base64'))
+        .rotate()
+        .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+        .jpeg({ quality: 80 })
+        .toBuffer();
+      // Previews blur every region that was reported, whatever its level
+      const regions = redactionRegions(analysis.sensitivity, 'low');
+      if (regions) {
+        const redacted = await redactImage(thumbnail, regions, 'blur');
+        if (!redacted) continue;
+        thumbnail = redacted;
+      }
+      await fs.mkdir(dataPath('library', 'thumbnails'), { recursive: true });
+      await fs.writeFile(file, thumbnail);
+    } catch (error) {
+      console.error(`Could not store library thumbnail for ${item.name ?? item.hash}:`, error);
+    }
+  }
+}
+
+/**
+ * Adds or updates one library entry per result, and remembers the
+ * descriptions in `categories`. Placeholder analyses are skipped, like in the
+ * analysis cache. Failures are logged, never thrown, so the library cannot
+ * break an analysis.
+ */
+export async function addToLibrary(results: AnalysisResult[], categories: CategoryMap = {}) {
+  if (!LIBRARY_ENABLED) return;
+  const recorded = results.filter(result => result.hash && isContentHash(result.hash) && result.status === 'success' && result.parseStatus !== 'fallback');
+  if (recorded.length === 0) return;
+
+  try {
+    await updateEntries(async entries => {
+      const now = new Date().toISOString();
+      for (const result of recorded) {
+        const hash = result.hash!;
+        entries[hash] = {
+          hash,
+          fileName: result.fileName,
+          fileType: result.fileType,
+          content: result.analysis.content,
+          category: result.analysis.category,
+          extracted_text: redactSensitiveText(result.analysis.extracted_text),
+          main_theme: result.analysis.main_theme,
+          tags: result.analysis.tags,
+          confidence: result.analysis.confidence,
+          categorizedBy: result.categorizedBy,
+          metadata: result.metadata ?? entries[hash]?.metadata,
+          sensitivity: result.sensitivity?.level ?? 'none',
+          thumbnail: await exists(thumbnailFile(hash)),
+          firstSeenAt: entries[hash]?.firstSeenAt ?? now,
+          lastSeenAt: now
+        };
+      }
+      const descriptions = (await readJsonFile<Record<string, string>>(CATEGORIES_FILE)) ?? {};
+      for (const [name, info] of Object.entries(categories)) {
+        if (info.description && name !== UNCATEGORIZED) descriptions[name] = info.description;
+      }
+      await writeJsonFile(CATEGORIES_FILE, descriptions);
+    });
+  } catch (error) {
+    console.error('Could not update the library:', error);
+  }
+}
+
+/**
+ * The categories files in the library are filed under, most used first, so
+ * a new run can reuse them instead of making up new names.
+ */
+export async function libraryCategories(): Promise<ExistingCategory[]> {
+  const [entries, descriptions] = await Promise.all([readEntries(), readJsonFile<Record<string, string>>(CATEGORIES_FILE)]);
+  const used = countFacet(Object.values(entries), entry => entry.category)
+    .filter(facet => facet.name !== UNCATEGORIZED)
+    .slice(0, MAX_EXISTING_CATEGORIES);
+  return mergeExistingCategories(used.map(({ name }) => ({ name, description: descriptions?.[name] ?? '' })))
+    .map(category => ({ ...category, description: category.description || descriptions?.[category.name] || '' }));
+}
+
+function normalize(text: string) {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/_/g, ' ');
+}
+
+function parseTerms(query: string) {
+  return [...query.matchAll(/"([^"]+)"|(\S+)/g)]
+    .map(match => normalize(match[1] ?? match[2]).trim())
+    .filter(Boolean);
+}
+
+function countOccurrences(haystack: string, needle: string) {
+  let count = 0;
+  for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + needle.length)) count++;
+  return count;
+}
+
+// 0 when some term appears nowhere; otherwise weighted occurrences
+function scoreEntry(entry: LibraryEntry, terms: string[]) {
+  const fields = Object.entries(SEARCH_FIELD_WEIGHTS).map(([field, weight]) => ({
+    text: normalize(String(entry[field as keyof typeof SEARCH_FIELD_WEIGHTS] ?? '')),
+    weight
+  }));
+  let score = 0;
+  for (const term of terms) {
+    const termScore = fields.reduce((sum, field) => sum + countOccurrences(field.text, term) * field.weight, 0);
+    if (termScore === 0) return 0;
+    score += termScore;
+  }
+  return score;
+}
+
+function entryDate(entry: LibraryEntry) {
+  return entry.metadata?.capturedAt ?? entry.firstSeenAt;
+}
+
+function countFacet(entries: LibraryEntry[], key: (entry: LibraryEntry) => string): LibraryFacet[] {
+  const counts = new Map<string, number>();
+  for (const entry of entries) counts.set(key(entry), (counts.get(key(entry)) ?? 0) + 1);
+  return [...counts].map(([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/**
+ * Full-text search over extracted text, labels and file names. With a query
+ * the best matches come first, otherwise the most recently captured.
+ */
+export async function searchLibrary(query: LibraryQuery): Promise<LibrarySearchResult> {
+  const terms = parseTerms(query.q ?? '');
+  const matching = Object.values(await readEntries())
+    .map(entry => ({ ...entry, score: terms.length > 0 ? scoreEntry(entry, terms) : 0 }))
+    .filter(entry => terms.length === 0 || entry.score > 0)
+    .filter(entry => !query.fileType || entry.fileType === query.fileType)
+    .filter(entry => !query.from || entryDate(entry).slice(0, 10) >= query.from)
+    .filter(entry => !query.to || entryDate(entry).slice(0, 10) <= query.to);
+
+  const filtered = matching
+    .filter(entry => !query.category || entry.category === query.category)
+    .filter(entry => !query.theme || entry.main_theme === query.theme)
+    .sort((a, b) => b.score - a.score || entryDate(b).localeCompare(entryDate(a)));
+
+  const offset = query.offset ?? 0;
+  return {
+    total: filtered.length,
+    entries: filtered.slice(offset, offset + Math.min(query.limit ?? 50, MAX_SEARCH_LIMIT)),
+    facets: {
+      categories: countFacet(matching, entry => entry.category),
+      themes: countFacet(matching, entry => entry.main_theme)
+    }
+  };
+}
+
+export async function readLibraryThumbnail(hash: string): Promise<Buffer | undefined> {
+  if (!isContentHash(hash)) return undefined;
+  return fs.readFile(thumbnailFile(hash)).catch(() => undefined);
+}
+
+/**
+ * Deletes every entry and preview and returns how many entries were removed.
+ */
+export async function clearLibrary(): Promise<number> {
+  let removed = 0;
+  await updateEntries(async entries => {
+    removed = Object.keys(entries).length;
+    await fs.rm(LIBRARY_DIR, { recursive: true, force: true });
+    for (const hash of Object.keys(entries)) delete entries[hash];
+  });
+  return removed;
+}
@@ -0,0 +1,151 @@
+import exifReader from "exif-reader";
+import sharp from 'sharp';
+import type { CaptureMetadata, CaptureTimeSource } from "./types";
+
+const SCREENSHOT_NAME_PATTERNS = [
+  /screen ?shot/i,
+  /screen[_ -]?capture/i,
+  /capture d[’']écran/i,
+  /bildschirmfoto/i,
+  /schermafbeelding/i,
+  /captura de pantalla/i,
+  /^scr_\d/i
+];
+
+const SCREENSHOT_SOFTWARE_PATTERNS = [/screenshot/i, /snipping/i, /greenshot/i, /shottr/i, /cleanshot/i, /flameshot/i, /spectacle/i];
+
+function toIso(date: Date | undefined) {
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : undefined;
+}
+
+// EXIF UserComment starts with an 8-byte character code such as "ASCII\0\0\0"
+function decodeUserComment(value: Buffer | undefined) {
+  if (!value || value.length <= 8) return undefined;
+  const encoding = value.subarray(0, 8).toString('ascii').replace(/\0/g, '');
+  const body = value.subarray(8);
+  const text = encoding === 'UNICODE' ? body.toString('utf16le') : body.toString('utf8');
+  return text.replace(/\0/g, '').trim() || undefined;
+}
+
+// PNG tEXt/iTXt chunks and the XMP packet inside them use several date fields
+function findPngCaptureTime(comments: Array<{ keyword: string; text: string }>) {
+  for (const { keyword, text } of comments) {
+    if (/^creation time$/i.test(keyword)) {
+      const iso = toIso(new Date(text));
+      if (iso) return iso;
+    }
+    const xmpDate = text.match(/(?:exif:DateTimeOriginal|photoshop:DateCreated|xmp:CreateDate)(?:>|=")([^<"]+)/);
+    if (xmpDate) {
+      const iso = toIso(new Date(xmpDate[1]));
+      if (iso) return iso;
+    }
+  }
+  return undefined;
+}
+
+function orientationOf(width?: number, height?: number): CaptureMetadata['orientation'] {
+  if (!width || !height) return null;
+  if (width === height) return 'square';
+  return width > height ? 'landscape' : 'portrait';
+}
+
+/**
+ * Reads capture time, dimensions, device and screenshot hints from an
+ * original upload. Must be given the bytes as uploaded: converting (e.g.
+ * HEIC to JPEG) drops the EXIF block. Falls back to `lastModified` for the
+ * capture time.
+ */
+export async function readCaptureMetadata(buffer: Buffer, fileName: string, lastModified?: number): Promise<CaptureMetadata> {
+  const hints: string[] = [];
+  let capturedAt: string | undefined;
+  let capturedAtSource: CaptureTimeSource | undefined;
+  let device: string | undefined;
+  let software: string | undefined;
+  let width: number | undefined;
+  let height: number | undefined;
+
+  if (SCREENSHOT_NAME_PATTERNS.some(pattern => pattern.test(fileName))) {
+    hints.push('file name');
+  }
+
+  try {
+    const metadata = await sharp(buffer).metadata();
+    // EXIF orientations 5-8 are rotated by 90°, so the displayed size is swapped
+    const rotated = (metadata.orientation ?? 1) >= 5;
+    width = rotated ? metadata.height : metadata.width;
+    height = rotated ? metadata.width : metadata.height;
+
+    if (metadata.exif) {
+      const exif = exifReader(metadata.exif);
+      capturedAt = toIso(exif.Photo?.DateTimeOriginal) ?? toIso(exif.Image?.DateTime);
+      if (capturedAt) capturedAtSource = 'exif';
+      device = [exif.Image?.Make, exif.Image?.Model].filter(Boolean).join(' ').trim() || undefined;
+      software = exif.Image?.Software || undefined;
+      if (/screenshot/i.test(decodeUserComment(exif.Photo?.UserComment) || '')) {
+        hints.push('EXIF user comment');
+      }
+    }
+
+    if (metadata.comments?.length) {
+      if (!capturedAt) {
+        capturedAt = findPngCaptureTime(metadata.comments);
+        if (capturedAt) capturedAtSource = 'png';
+      }
+      software ??= metadata.comments.find(comment => /^software$/i.test(comment.keyword))?.text;
+      if (metadata.comments.some(comment => /UserComment[^<]*<[^>]*>[^<]*Screenshot/i.test(comment.text) || /Screenshot/.test(comment.keyword))) {
+        hints.push('PNG metadata');
+      }
+    }
+  } catch (error) {
+    console.error(`Could not read metadata from ${fileName}:`, error);
+  }
+
+  if (software && SCREENSHOT_SOFTWARE_PATTERNS.some(pattern => pattern.test(software!))) {
+    hints.push('capture software');
+  }
+
+  if (!capturedAt && lastModified) {
+    capturedAt = toIso(new Date(lastModified));
+    if (capturedAt) capturedAtSource = 'lastModified';
+  }
+
+  return {
+    capturedAt: capturedAt ?? null,
+    capturedAtSource: capturedAtSource ?? null,
+    width,
+    height,
+    orientation: orientationOf(width, height),
+    device,
+    software,
+    isScreenshot: hints.length > 0,
+    screenshotHints: hints
+  };
+}
+
+/**
+ * Metadata for a PDF. Only the creation date from the document info
+ * dictionary is used; dimensions are those of the rendered first page.
+ */
+export function pdfCaptureMetadata(fileName: string, creationDate: string | undefined, lastModified?: number, width?: number, height?: number): CaptureMetadata {
+  const fromPdf = parsePdfDate(creationDate);
+  const fromFile = lastModified ? toIso(new Date(lastModified)) : undefined;
+  const namedLikeScreenshot = SCREENSHOT_NAME_PATTERNS.some(pattern => pattern.test(fileName));
+  return {
+    capturedAt: fromPdf ?? fromFile ?? null,
+    capturedAtSource: fromPdf ? 'pdf' : fromFile ? 'lastModified' : null,
+    width,
+    height,
+    orientation: orientationOf(width, height),
+    isScreenshot: namedLikeScreenshot,
+    screenshotHints: namedLikeScreenshot ? ['file name'] : []
+  };
+}
+
+// PDF dates look like D:20250301143000+01'00'
+function parsePdfDate(value: string | undefined) {
+  const match = value?.match(/^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz]|[+-]\d{2}'?\d{2}'?)?/);
+  if (!match) return undefined;
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', zone] = match;
+  const offset = !zone || /z/i.test(zone) ? 'Z' : `${zone.slice(0, 3)}:${zone.replace(/'/g, '').slice(3, 5) || '00'}`;
+  return toIso(new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`));
+}
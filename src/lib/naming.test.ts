@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { findUnknownTokens, renderFileName, resolveNameCollisions, sanitizeFileName } from "./naming";
+
+const INPUT = {
+  originalName: 'Screenshot 2025-03-14 at 10.22.01.PNG',
+  content: 'react_error',
+  category: 'coding',
+  theme: 'coding',
+  capturedAt: '2025-03-14T10:22:01.000Z',
+  index: 0
+};
+
+describe('renderFileName', () => {
+  it('fills the tokens and keeps the extension in lower case', () => {
+    assert.equal(renderFileName('{category}-{index}-{content}_{capture_date}', INPUT), 'coding-1-react_error_2025-03-14.png');
+    assert.equal(renderFileName('{original_name}', INPUT), 'Screenshot_2025-03-14_at_10.22.01.png');
+  });
+
+  it('falls back to the default template and to undated', () => {
+    assert.equal(renderFileName('  ', { ...INPUT, capturedAt: null }), 'react_error_undated.png');
+  });
+
+  it('leaves unknown tokens visible', () => {
+    assert.equal(renderFileName('{content}_{month}', INPUT), 'react_error_{month}.png');
+    assert.deepEqual(findUnknownTokens('{content}_{month}_{year}'), ['month', 'year']);
+  });
+});
+
+describe('sanitizeFileName', () => {
+  it('replaces characters that some file systems reject', () => {
+    assert.equal(sanitizeFileName('a/b\\c: d*?"<>|e'), 'a_b_c_d_e');
+    assert.equal(sanitizeFileName('..hidden..'), 'hidden');
+    assert.equal(sanitizeFileName('///'), 'file');
+  });
+});
+
+describe('resolveNameCollisions', () => {
+  it('numbers later copies before the extension, ignoring case', () => {
+    assert.deepEqual(
+      resolveNameCollisions(['coding/a.png', 'coding/A.png', 'coding/a.png', 'finance/a.png', 'coding/a_2.png']),
+      ['coding/a.png', 'coding/A_2.png', 'coding/a_3.png', 'finance/a.png', 'coding/a_2_2.png']
+    );
+  });
+
+  it('handles names without an extension', () => {
+    assert.deepEqual(resolveNameCollisions(['notes', 'notes']), ['notes', 'notes_2']);
+  });
+});
@@ -0,0 +1,100 @@
+// Filename templates shared by the browser ZIP export and server-side exports.
+// Nothing here may import Node-only modules.
+
+export const DEFAULT_NAME_TEMPLATE = '{content}_{capture_date}';
+
+export const NAME_TEMPLATE_TOKENS = {
+  content: 'Content label from the analysis, e.g. react_error',
+  category: 'Category the file is filed under',
+  capture_date: 'Capture date (YYYY-MM-DD), falling back to the file date',
+  original_name: 'Original file name without extension',
+  index: 'Position in the batch, starting at 1',
+  theme: 'Main theme, e.g. finance or coding'
+} as const;
+
+export type NameTemplateToken = keyof typeof NAME_TEMPLATE_TOKENS;
+
+export interface NamingInput {
+  originalName: string;
+  content: string;
+  category: string;
+  theme?: string;
+  // ISO timestamp; only the date part is used
+  capturedAt?: string | null;
+  // Zero-based position in the batch
+  index: number;
+}
+
+const MAX_NAME_LENGTH = 120;
+const TOKEN_PATTERN = /\{([a-z_]+)\}/g;
+
+/**
+ * Returns the names of `{tokens}` in `template` that are not supported.
+ */
+export function findUnknownTokens(template: string): string[] {
+  return [...template.matchAll(TOKEN_PATTERN)]
+    .map(match => match[1])
+    .filter(token => !(token in NAME_TEMPLATE_TOKENS));
+}
+
+export function splitExtension(fileName: string): { base: string; extension: string } {
+  const dot = fileName.lastIndexOf('.');
+  if (dot <= 0) return { base: fileName, extension: '' };
+  return { base: fileName.slice(0, dot), extension: fileName.slice(dot + 1).toLowerCase() };
+}
+
+// Keeps names portable across macOS, Windows and Linux file systems
+export function sanitizeFileName(name: string) {
+  return name
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_')
+    .replace(/\s+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^[._]+|[._]+$/g, '')
+    .slice(0, MAX_NAME_LENGTH) || 'file';
+}
+
+/**
+ * Renders `template` for one file and appends the original extension.
+ * Unknown tokens are left in place so typos are visible in the preview.
+ */
+export function renderFileName(template: string, input: NamingInput): string {
+  const { base, extension } = splitExtension(input.originalName);
+  const values: Record<NameTemplateToken, string> = {
+    content: input.content,
+    category: input.category,
+    capture_date: (input.capturedAt ?? '').split('T')[0] || 'undated',
+    original_name: base,
+    index: String(input.index + 1),
+    theme: input.theme || 'misc'
+  };
+
+  const rendered = (template.trim() || DEFAULT_NAME_TEMPLATE).replace(TOKEN_PATTERN, (token, name: string) =>
+    name in values ? values[name as NameTemplateToken] : token
+  );
+
+  const safeBase = sanitizeFileName(rendered);
+  return extension ? `${safeBase}.${extension}` : safeBase;
+}
+
+/**
+ * Makes every path unique, comparing case-insensitively because common
+ * desktop file systems do. The first occurrence keeps its name and later
+ * ones get `_2`, `_3`, ... before the extension, so for the same input order
+ * the output is always the same.
+ */
+export function resolveNameCollisions(paths: string[]): string[] {
+  const taken = new Set<string>();
+  return paths.map(path => {
+    const slash = path.lastIndexOf('/');
+    const folder = slash >= 0 ? path.slice(0, slash + 1) : '';
+    const { base, extension } = splitExtension(path.slice(slash + 1));
+    const suffix = extension ? `.${extension}` : '';
+
+    let candidate = path;
+    for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+      candidate = `${folder}${base}_${n}${suffix}`;
+    }
+    taken.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
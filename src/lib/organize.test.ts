@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { applyPlan, listJournals, planTransfers, readJournal, undoJournal, type AnalyzedFiles } from "./organize";
+import type { AnalysisResult } from "./pipeline";
+
+const USAGE = { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+
+let root: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(path.join(tmpdir(), 'organize-'));
+});
+
+afterEach(() => rm(root, { recursive: true, force: true }));
+
+function result(index: number, content: string, category: string): AnalysisResult {
+  return {
+    index,
+    analysis: { content, category, extracted_text: '', main_theme: category, tags: [category], confidence: 90 },
+    status: 'success',
+    parseStatus: 'parsed',
+    categorizedBy: 'model',
+    fileType: 'image',
+    fileName: `shot${index + 1}.png`,
+    cached: false
+  };
+}
+
+// Two receipts, which the template names alike, and one error screenshot
+async function analyzedFiles() {
+  const filePaths = ['shot1.png', 'shot2.png', 'shot3.png'].map(name => path.join(root, name));
+  await Promise.all(filePaths.map((file, i) => writeFile(file, `image ${i + 1}`)));
+  const analyzed: AnalyzedFiles = {
+    results: [result(0, 'receipt', 'finance'), result(1, 'receipt', 'finance'), result(2, 'error', 'coding')],
+    categories: {},
+    sources: filePaths.map(file => ({ name: path.basename(file) })),
+    usage: { model: 'stub/stub', batchSize: 1, batchFallbacks: 0, analysis: USAGE, categorization: USAGE, total: USAGE }
+  };
+  return { filePaths, analyzed };
+}
+
+function relative(file: string) {
+  return path.relative(root, file).split(path.sep).join('/');
+}
+
+async function rootFiles() {
+  return (await readdir(root)).filter(name => !name.startsWith('.')).sort();
+}
+
+describe('planTransfers', () => {
+  it('numbers names taken by the run or on disk', async () => {
+    const { filePaths, analyzed } = await analyzedFiles();
+    await mkdir(path.join(root, 'finance'));
+    await writeFile(path.join(root, 'finance/receipt.png'), 'already there');
+    const plan = await planTransfers(filePaths, analyzed, root, '{content}');
+    assert.deepEqual(plan.transfers.map(transfer => relative(transfer.to)), ['finance/receipt_2.png', 'finance/receipt_3.png', 'coding/error.png']);
+    assert.deepEqual(plan.transfers.map(transfer => relative(transfer.preferredTo)), ['finance/receipt.png', 'finance/receipt.png', 'coding/error.png']);
+  });
+});
+
+describe('applyPlan and undoJournal', () => {
+  it('moves files into their categories and back', async () => {
+    const { filePaths, analyzed } = await analyzedFiles();
+    const journal = await applyPlan(await planTransfers(filePaths, analyzed, root, '{content}'), 'move');
+
+    assert.deepEqual(await rootFiles(), ['coding', 'finance']);
+    assert.equal(await readFile(path.join(root, 'finance/receipt_2.png'), 'utf8'), 'image 2');
+    assert.deepEqual(await listJournals(root), [journal]);
+
+    assert.deepEqual(await undoJournal(journal), { restored: 3, skipped: [] });
+    assert.deepEqual(await rootFiles(), ['shot1.png', 'shot2.png', 'shot3.png']);
+    assert.equal(await readFile(filePaths[1], 'utf8'), 'image 2');
+    assert.ok((await readJournal(journal)).undoneAt);
+    await assert.rejects(undoJournal(journal), /already undone/);
+  });
+
+  it('copies files and deletes only the copies on undo', async () => {
+    const { filePaths, analyzed } = await analyzedFiles();
+    const journal = await applyPlan(await planTransfers(filePaths, analyzed, root, '{content}'), 'copy');
+
+    assert.deepEqual(await rootFiles(), ['coding', 'finance', 'shot1.png', 'shot2.png', 'shot3.png']);
+    assert.equal(await readFile(path.join(root, 'coding/error.png'), 'utf8'), 'image 3');
+
+    assert.equal((await undoJournal(journal)).restored, 3);
+    assert.deepEqual(await rootFiles(), ['shot1.png', 'shot2.png', 'shot3.png']);
+  });
+
+  it('leaves a file that changed since the run where it is', async () => {
+    const { filePaths, analyzed } = await analyzedFiles();
+    const journal = await applyPlan(await planTransfers(filePaths, analyzed, root, '{content}'), 'move');
+    await writeFile(path.join(root, 'coding/error.png'), 'edited');
+
+    const report = await undoJournal(journal);
+    assert.equal(report.restored, 2);
+    assert.deepEqual(report.skipped.map(({ entry, reason }) => [relative(entry.to), reason]), [['coding/error.png', 'organized file was modified']]);
+    assert.equal(await readFile(path.join(root, 'coding/error.png'), 'utf8'), 'edited');
+    assert.deepEqual(await rootFiles(), ['coding', 'shot1.png', 'shot2.png']);
+  });
+
+  it('does not move a file back over one that took its place', async () => {
+    const { filePaths, analyzed } = await analyzedFiles();
+    const journal = await applyPlan(await planTransfers(filePaths, analyzed, root, '{content}'), 'move');
+    await writeFile(filePaths[0], 'new file');
+
+    const report = await undoJournal(journal);
+    assert.deepEqual(report.skipped.map(({ reason }) => reason), ['original path is taken by another file']);
+    assert.equal(await readFile(filePaths[0], 'utf8'), 'new file');
+    assert.equal(await readFile(path.join(root, 'finance/receipt.png'), 'utf8'), 'image 1');
+  });
+
+  it('picks a new name for a target that appeared after planning', async () => {
+    const { filePaths, analyzed } = await analyzedFiles();
+    await mkdir(path.join(root, 'finance'));
+    await writeFile(path.join(root, 'finance/receipt.png'), 'already there');
+    const plan = await planTransfers(filePaths, analyzed, root, '{content}');
+    await writeFile(path.join(root, 'finance/receipt_2.png'), 'appeared later');
+
+    for (const mode of ['move', 'copy'] as const) {
+      const journal = await applyPlan(plan, mode);
+      const { entries } = await readJournal(journal);
+      // Numbered from the template's name, not from the name that was taken
+      assert.deepEqual(entries.map(entry => relative(entry.to)), ['finance/receipt_4.png', 'finance/receipt_3.png', 'coding/error.png']);
+      assert.equal(await readFile(path.join(root, 'finance/receipt_2.png'), 'utf8'), 'appeared later');
+      assert.equal(await readFile(path.join(root, 'finance/receipt_4.png'), 'utf8'), 'image 1');
+      await undoJournal(journal);
+    }
+  });
+});
@@ -0,0 +1,371 @@
+import { constants as fsConstants, promises as fs } from "fs";
+import path from "path";
+import { sha256 } from "./analysis-cache";
+import { categoryDepth, MAX_CATEGORY_DEPTH } from "./category-tree";
+import { mapWithConcurrency } from "./concurrency";
+import type { ExistingCategory } from "./existing-categories";
+import { renderExportPaths, type ExportSource } from "./export";
+import { addToLibrary, saveLibraryThumbnails } from "./library";
+import { splitExtension } from "./naming";
+import { analyzeItems, buildResults, categorizeAnalyses, prepareItems, resolveBatchSize, type AnalysisResult } from "./pipeline";
+import type { VisionProvider } from "./providers";
+import { readJsonFile, writeJsonFile } from "./storage";
+import type { CategoryMap, ImageAnalysis, OrganizationProfile, RunUsage } from "./types";
+import { addCounts, createUsageMeter, summarizeUsage } from "./usage";
+
+// Organizing a local directory in place, for the CLI. Every run writes a
+// journal before touching any file so that `undoJournal` can put each file
+// back where it was.
+
+export const JOURNAL_DIR_NAME = '.organizer';
+const JOURNAL_VERSION = 1;
+
+// Files are read and sent to the model in chunks so a large directory is never
+// held in memory at once
+const CHUNK_SIZE = 25;
+const CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 4;
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  pdf: 'application/pdf'
+};
+
+export type TransferMode = 'move' | 'copy';
+
+export interface PlannedTransfer {
+  from: string;
+  to: string;
+  // Where the name template put the file, before `_2`, `_3`, ... were added
+  preferredTo: string;
+  category: string;
+  categorizedBy: 'rule' | 'model';
+}
+
+export interface OrganizationPlan {
+  root: string;
+  transfers: PlannedTransfer[];
+  // Files whose analysis failed stay where they are, so a later run tries them again
+  skipped: Array<{ from: string; reason: string }>;
+  categories: CategoryMap;
+  results: AnalysisResult[];
+}
+
+export interface JournalEntry {
+  from: string;
+  to: string;
+  // SHA-256 of the file, so undo never deletes or moves back a different file
+  hash: string;
+  done: boolean;
+}
+
+export interface Journal {
+  version: typeof JOURNAL_VERSION;
+  createdAt: string;
+  undoneAt?: string;
+  mode: TransferMode;
+  root: string;
+  // Category folders this run created, removed again on undo if empty
+  createdDirectories: string[];
+  entries: JournalEntry[];
+}
+
+export class OrganizeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrganizeError';
+  }
+}
+
+export interface UndoReport {
+  restored: number;
+  // Entries that could not be restored, with the reason
+  skipped: Array<{ entry: JournalEntry; reason: string }>;
+}
+
+// Hidden files (including our own journal folder) are never organized
+export function isSupportedFile(name: string) {
+  return !name.startsWith('.') && splitExtension(name).extension in MIME_TYPES;
+}
+
+/**
+ * Supported files directly inside `directory`, sorted by name. Hidden files
+ * and subdirectories are ignored, so category folders from an earlier run are
+ * not organized again.
+ */
+export async function scanDirectory(directory: string): Promise<string[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  return entries
+    .filter(entry => entry.isFile() && isSupportedFile(entry.name))
+    .map(entry => path.join(directory, entry.name))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Category folders already under `root`, nested ones as category paths
+ * (e.g. finance/payslips). Hidden folders and `skip` (a top-level folder
+ * such as the watch inbox) are left out.
+ */
+export async function listCategoryFolders(root: string, skip?: string, parent = ''): Promise<string[]> {
+  if (parent && categoryDepth(parent) >= MAX_CATEGORY_DEPTH) return [];
+  const entries = await fs.readdir(path.join(root, parent), { withFileTypes: true }).catch(() => []);
+  const folders = entries
+    .filter(entry => entry.isDirectory() && !entry.name.startsWith('.') && !(parent === '' && entry.name === skip))
+    .map(entry => (parent ? `${parent}/${entry.name}` : entry.name));
+  const nested = await Promise.all(folders.map(folder => listCategoryFolders(root, skip, folder)));
+  return folders.flatMap((folder, i) => [folder, ...nested[i]]);
+}
+
+async function readLocalFile(filePath: string): Promise<File> {
+  const [buffer, stat] = await Promise.all([fs.readFile(filePath), fs.stat(filePath)]);
+  const { extension } = splitExtension(path.basename(filePath));
+  return new File([buffer], path.basename(filePath), { type: MIME_TYPES[extension], lastModified: stat.mtimeMs });
+}
+
+export interface AnalyzeFilesOptions {
+  userPrompt?: string;
+  profile?: OrganizationProfile;
+  // Categories to file into before proposing new ones
+  existingCategories?: ExistingCategory[];
+  useCache?: boolean;
+  // Images per model request; see resolveBatchSize
+  batchSize?: number;
+  onAnalyzed?: (analysis: ImageAnalysis, done: number) => void;
+}
+
+export interface AnalyzedFiles {
+  results: AnalysisResult[];
+  categories: CategoryMap;
+  // Name and modification time per entry of the analyzed file paths
+  sources: ExportSource[];
+  usage: RunUsage;
+}
+
+/**
+ * Analyzes and categorizes local files with the same pipeline as the web app.
+ * Result indexes are positions in `filePaths`.
+ */
+export async function analyzeFiles(provider: VisionProvider, filePaths: string[], options: AnalyzeFilesOptions = {}): Promise<AnalyzedFiles> {
+  const analyses: ImageAnalysis[] = [];
+  let analyzed = 0;
+  const sources: ExportSource[] = [];
+  const batchSize = resolveBatchSize(options.batchSize);
+  const meter = createUsageMeter();
+
+  for (let start = 0; start < filePaths.length; start += CHUNK_SIZE) {
+    const files = await Promise.all(filePaths.slice(start, start + CHUNK_SIZE).map(readLocalFile));
+    const items = await prepareItems(files, [], files.map(file => file.lastModified));
+    sources.push(...files.map(file => ({ name: file.name, lastModified: file.lastModified })));
+    const chunkAnalyses = await analyzeItems(provider, items, {
+      startIndex: start,
+      concurrency: CONCURRENCY,
+      known: analyses,
+      useCache: options.useCache,
+      batchSize,
+      usage: meter,
+      onAnalysis: analysis => options.onAnalyzed?.(analysis, ++analyzed)
+    });
+    await saveLibraryThumbnails(items, chunkAnalyses);
+    analyses.push(...chunkAnalyses);
+  }
+
+  const { categories, ruleAssigned, usage } = await categorizeAnalyses(provider, analyses, options.userPrompt, options.profile, options.existingCategories);
+  addCounts(meter.categorization, usage);
+  const results = buildResults(analyses, categories, ruleAssigned);
+  await addToLibrary(results, categories);
+  return { results, categories, sources, usage: summarizeUsage(provider, meter, batchSize) };
+}
+
+/**
+ * Plans where each analyzed file goes: `<root>/<category>/<name from
+ * template>`. Nothing is written. Names taken by an earlier file of the run
+ * or already on disk get `_2`, `_3`, ...
+ */
+export async function planTransfers(filePaths: string[], analyzed: AnalyzedFiles, root: string, nameTemplate: string): Promise<OrganizationPlan> {
+  const failed = analyzed.results.filter(result => result.status === 'failed');
+  const paths = renderExportPaths(analyzed.results.filter(result => result.status !== 'failed'), analyzed.sources, nameTemplate);
+
+  const taken = new Set<string>();
+  const transfers: PlannedTransfer[] = [];
+  for (const [index, relativePath] of paths) {
+    const preferredTo = path.join(root, relativePath);
+    const to = await findFreePath(preferredTo, taken);
+    const result = analyzed.results.find(r => r.index === index)!;
+    transfers.push({ from: filePaths[index], to, preferredTo, category: result.analysis.category, categorizedBy: result.categorizedBy });
+  }
+
+  const skipped = failed.map(result => ({ from: filePaths[result.index], reason: result.error ?? 'analysis failed' }));
+  return { root, transfers, skipped, categories: analyzed.categories, results: analyzed.results };
+}
+
+async function exists(filePath: string) {
+  return fs.access(filePath).then(() => true, () => false);
+}
+
+// `preferred`, or the first of `<base>_2`, `<base>_3`, ... that is free
+async function findFreePath(preferred: string, taken: Set<string>) {
+  const { base, extension } = splitExtension(path.basename(preferred));
+  const suffix = extension ? `.${extension}` : '';
+  let next = preferred;
+  for (let n = 2; taken.has(next.toLowerCase()) || (await exists(next)); n++) {
+    next = path.join(path.dirname(preferred), `${base}_${n}${suffix}`);
+  }
+  taken.add(next.toLowerCase());
+  return next;
+}
+
+// Unlike rename(), link() fails with EEXIST instead of replacing a file that
+// appeared at `to` after planning (another run, the watcher)
+async function moveFile(from: string, to: string) {
+  try {
+    await fs.link(from, to);
+  } catch (error) {
+    // Links cannot cross file systems, and some file systems have none;
+    // an exclusive copy keeps the same guarantee
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'EEXIST' || !['EXDEV', 'EPERM', 'ENOTSUP', 'EOPNOTSUPP'].includes(code ?? '')) throw error;
+    await fs.copyFile(from, to, fsConstants.COPYFILE_EXCL);
+  }
+  await fs.unlink(from);
+}
+
+function isAlreadyExists(error: unknown) {
+  return (error as NodeJS.ErrnoException).code === 'EEXIST';
+}
+
+function journalPath(root: string, createdAt: string) {
+  return path.join(root, JOURNAL_DIR_NAME, `journal-${createdAt.replace(/[:.]/g, '-')}.json`);
+}
+
+/**
+ * Moves or copies every planned file. The journal is written before the
+ * first file is touched and after each one, so an interrupted run can still
+ * be undone. Returns the journal's path.
+ */
+export async function applyPlan(plan: OrganizationPlan, mode: TransferMode): Promise<string> {
+  const createdAt = new Date().toISOString();
+  const file = journalPath(plan.root, createdAt);
+  const journal: Journal = {
+    version: JOURNAL_VERSION,
+    createdAt,
+    mode,
+    root: plan.root,
+    createdDirectories: [],
+    entries: await mapWithConcurrency(plan.transfers, CONCURRENCY, async transfer => ({
+      from: transfer.from,
+      to: transfer.to,
+      hash: sha256(await fs.readFile(transfer.from)),
+      done: false
+    }))
+  };
+  await writeJsonFile(file, journal);
+  const taken = new Set(journal.entries.map(entry => entry.to.toLowerCase()));
+
+  for (const [i, entry] of journal.entries.entries()) {
+    // Nested categories may need several levels; each is recorded, outermost
+    // first, so undo can remove them innermost first
+    const missing: string[] = [];
+    for (let directory = path.dirname(entry.to); !(await exists(directory)); directory = path.dirname(directory)) {
+      missing.unshift(directory);
+    }
+    if (missing.length > 0) {
+      await fs.mkdir(missing[missing.length - 1], { recursive: true });
+      journal.createdDirectories.push(...missing);
+    }
+    for (;;) {
+      try {
+        if (mode === 'move') {
+          await moveFile(entry.from, entry.to);
+        } else {
+          await fs.copyFile(entry.from, entry.to, fsConstants.COPYFILE_EXCL);
+        }
+        break;
+      } catch (error) {
+        if (!isAlreadyExists(error)) throw error;
+        // The name was taken since planning; the journal records the new one
+        // before the file is moved there
+        entry.to = await findFreePath(plan.transfers[i].preferredTo, taken);
+        await writeJsonFile(file, journal);
+      }
+    }
+    entry.done = true;
+    await writeJsonFile(file, journal);
+  }
+
+  return file;
+}
+
+// Journals of `root`, newest first
+export async function listJournals(root: string): Promise<string[]> {
+  const directory = path.join(root, JOURNAL_DIR_NAME);
+  const names = await fs.readdir(directory).catch(() => [] as string[]);
+  return names
+    .filter(name => /^journal-.*\.json$/.test(name))
+    .sort()
+    .reverse()
+    .map(name => path.join(directory, name));
+}
+
+export async function readJournal(file: string): Promise<Journal> {
+  const journal = await readJsonFile<Journal>(file);
+  if (!journal) throw new OrganizeError(`Journal not found: ${file}`);
+  if (journal.version !== JOURNAL_VERSION) throw new OrganizeError(`Unsupported journal version ${journal.version}`);
+  return journal;
+}
+
+/**
+ * Reverses a run: moved files go back to their original path, copies are
+ * deleted. Files that changed since the run, or whose original path is taken
+ * again, are left alone and reported.
+ */
+export async function undoJournal(file: string): Promise<UndoReport> {
+  const journal = await readJournal(file);
+  if (journal.undoneAt) throw new OrganizeError(`This run was already undone at ${journal.undoneAt}`);
+
+  const report: UndoReport = { restored: 0, skipped: [] };
+  for (const entry of [...journal.entries].reverse()) {
+    const current = await fs.readFile(entry.to).catch(() => undefined);
+    // An entry that is not marked done may still have been carried out if the
+    // run was interrupted right after the transfer
+    if (!current && !entry.done) continue;
+    if (!current) {
+      report.skipped.push({ entry, reason: 'organized file no longer exists' });
+      continue;
+    }
+    if (sha256(current) !== entry.hash) {
+      report.skipped.push({ entry, reason: 'organized file was modified' });
+      continue;
+    }
+
+    if (journal.mode === 'copy') {
+      await fs.unlink(entry.to);
+    } else {
+      await fs.mkdir(path.dirname(entry.from), { recursive: true });
+      try {
+        await moveFile(entry.to, entry.from);
+      } catch (error) {
+        if (!isAlreadyExists(error)) throw error;
+        report.skipped.push({ entry, reason: 'original path is taken by another file' });
+        continue;
+      }
+    }
+    report.restored++;
+  }
+
+  // rmdir only removes empty directories, which is exactly what we want
+  for (const directory of [...journal.createdDirectories].reverse()) {
+    await fs.rmdir(directory).catch(() => undefined);
+  }
+
+  journal.undoneAt = new Date().toISOString();
+  await writeJsonFile(file, journal);
+  return report;
+}
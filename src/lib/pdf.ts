@@ -0,0 +1,121 @@
+import path from "path";
+import sharp from 'sharp';
+
+// How many leading pages are rasterized for the vision step, and the target
+// width of each rendered page in pixels
+const PDF_RENDER_PAGES = Math.max(1, Number(process.env.PDF_RENDER_PAGES) || 1);
+const PDF_RENDER_WIDTH = 1600;
+
+// Embedded text beyond this is not useful to the model and only costs tokens
+const MAX_DOCUMENT_TEXT = 4000;
+
+export interface PdfExtraction {
+  pageCount: number;
+  // Raw `CreationDate` from the document info dictionary (D:YYYYMMDDHHmmSS...)
+  creationDate?: string;
+  // Size of the first page in PDF points
+  pageWidth?: number;
+  pageHeight?: number;
+  // Text layer of the document, whitespace-collapsed; empty for scanned PDFs
+  text: string;
+  // PNG of the first page(s) stacked vertically, or undefined if rendering failed
+  image?: Buffer;
+}
+
+interface CanvasAndContext {
+  canvas: { width: number; height: number; toBuffer(mime: 'image/png'): Buffer };
+  context: unknown;
+}
+
+export function isPdf(file: { type: string; name: string }) {
+  return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+}
+
+// Uploads are not always labelled correctly; every PDF starts with this marker
+export function looksLikePdf(buffer: Buffer) {
+  return buffer.subarray(0, 5).toString('latin1') === '%PDF-';
+}
+
+async function loadPdfjs() {
+  return import('pdfjs-dist/legacy/build/pdf.mjs');
+}
+
+export async function extractPdf(buffer: Buffer): Promise<PdfExtraction> {
+  const pdfjs = await loadPdfjs();
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    standardFontDataUrl: path.join(process.cwd(), 'node_modules/pdfjs-dist/standard_fonts/'),
+    isEvalSupported: false
+  }).promise;
+
+  try {
+    const { info } = await document.getMetadata().catch(() => ({ info: undefined }));
+    const creationDate = (info as { CreationDate?: string } | undefined)?.CreationDate;
+    const firstPageViewport = (await document.getPage(1)).getViewport({ scale: 1 });
+
+    const textParts: string[] = [];
+    let textLength = 0;
+    for (let pageNumber = 1; pageNumber <= document.numPages && textLength < MAX_DOCUMENT_TEXT; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      const pageText = textContent.items
+        .map(item => ('str' in item ? item.str : ''))
+        .join(' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+      if (pageText) {
+        textParts.push(pageText);
+        textLength += pageText.length;
+      }
+    }
+
+    let image: Buffer | undefined;
+    try {
+      const pages: Buffer[] = [];
+      for (let pageNumber = 1; pageNumber <= Math.min(PDF_RENDER_PAGES, document.numPages); pageNumber++) {
+        const page = await document.getPage(pageNumber);
+        const baseViewport = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale: PDF_RENDER_WIDTH / baseViewport.width });
+        const canvasFactory = document.canvasFactory as { create(width: number, height: number): CanvasAndContext };
+        const { canvas, context } = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+        await page.render({
+          canvasContext: context as CanvasRenderingContext2D,
+          viewport
+        }).promise;
+        pages.push(canvas.toBuffer('image/png'));
+      }
+      image = await stackPages(pages);
+    } catch (error) {
+      console.error('PDF rendering failed, continuing with the text layer only:', error);
+    }
+
+    return {
+      pageCount: document.numPages,
+      creationDate,
+      pageWidth: Math.round(firstPageViewport.width),
+      pageHeight: Math.round(firstPageViewport.height),
+      text: textParts.join('\n').substring(0, MAX_DOCUMENT_TEXT),
+      image
+    };
+  } finally {
+    await document.destroy();
+  }
+}
+
+async function stackPages(pages: Buffer[]): Promise<Buffer | undefined> {
+  if (pages.length <= 1) return pages[0];
+
+  const metadata = await Promise.all(pages.map(page => sharp(page).metadata()));
+  const width = Math.max(...metadata.map(m => m.width || 0));
+  let top = 0;
+  const composites = pages.map((page, i) => {
+    const composite = { input: page, top, left: 0 };
+    top += metadata[i].height || 0;
+    return composite;
+  });
+
+  return sharp({ create: { width, height: top, channels: 3, background: '#ffffff' } })
+    .composite(composites)
+    .png()
+    .toBuffer();
+}
@@ -0,0 +1,904 @@
+import {
+  ANALYSIS_CACHE_ENABLED,
+  analysisCacheKey,
+  readCachedAnalysis,
+  sha256,
+  writeCachedAnalysis
+} from "./analysis-cache";
+import { normalizeCategoryName, UNCATEGORIZED } from "./category-edits";
+import {
+  categoryAncestors,
+  categoryDepth,
+  MAX_CATEGORY_DEPTH,
+  pruneEmptyCategories,
+  withParentCategories
+} from "./category-tree";
+import { mapWithConcurrency } from "./concurrency";
+import { findDuplicate, perceptualHash, type DuplicateCandidate } from "./duplicates";
+import { findExistingCategory, markCategoryOrigins, type ExistingCategory } from "./existing-categories";
+import { describeContentTypes, describeDetailFields, isContentType, toDetails } from "./extractors";
+import { normalizeImage, type NormalizedImage } from "./images";
+import { pdfCaptureMetadata, readCaptureMetadata } from "./metadata";
+import { extractPdf, isPdf, looksLikePdf } from "./pdf";
+import type { VisionProvider } from "./providers";
+import {
+  ANALYSIS_SCHEMA,
+  BATCH_ANALYSIS_SCHEMA,
+  CATEGORIZATION_SCHEMA,
+  requestStructured,
+  type ModelAnalysis,
+  type ModelBatchAnalysis,
+  type ModelCategorization,
+  type StructuredResult
+} from "./schemas";
+import { compileRules, matchRule } from "./rules";
+import { assessSensitivity, WHOLE_IMAGE } from "./sensitivity";
+import { normalizeTags } from "./tags";
+import { buildTranscriptionPrompt, needsTranscript, toTranscript, TRANSCRIPT_SCHEMA } from "./transcripts";
+import { addCounts, addUsage, createUsageMeter, emptyCounts, priceUsage, shareUsage, type TokenCounts, type UsageMeter } from "./usage";
+import type {
+  CaptureMetadata,
+  CategoryMap,
+  ContentDetails,
+  ContentType,
+  DuplicateInfo,
+  FileType,
+  ImageAnalysis,
+  OrganizationProfile,
+  ParseStatus,
+  ResultStatus,
+  SensitivityReport,
+  TokenUsage,
+  Transcript
+} from "./types";
+
+// Larger batches have to go through the job API (/api/jobs)
+export const MAX_INLINE_ITEMS = 10;
+
+// Images sent to the model per phase-1 request. 1 (the default) sends each
+// image on its own; larger values pack several into one request.
+export const MAX_ANALYSIS_BATCH_SIZE = 10;
+
+// A requested batch size as a whole number in 1..MAX_ANALYSIS_BATCH_SIZE;
+// without one, ANALYSIS_BATCH_SIZE from the environment (default 1)
+export function resolveBatchSize(requested?: number) {
+  const size = Math.floor(requested || Number(process.env.ANALYSIS_BATCH_SIZE) || 1);
+  return Math.min(Math.max(1, size), MAX_ANALYSIS_BATCH_SIZE);
+}
+
+export interface PipelineItem {
+  type: FileType;
+  // data: URL of the normalized image sent to the model; missing for PDFs
+  // that could not be rendered and images that could not be decoded
+  data?: string;
+  name?: string;
+  documentText?: string;
+  // SHA-256 of the bytes the analysis is based on (the normalized image, or the original PDF)
+  hash?: string;
+  perceptualHash?: string;
+  metadata?: CaptureMetadata;
+  // Position of the upload in `files`; missing for data: URLs. Skipped
+  // uploads shift later items, so this is what maps an item back to its file
+  sourceIndex?: number;
+}
+
+export interface Categorization {
+  categories: CategoryMap;
+  parseStatus: ParseStatus;
+  // Indexes of the analyses that a profile rule filed instead of the model
+  ruleAssigned: number[];
+  // Tokens spent on the phase-2 request; zero when rules filed everything
+  usage: TokenCounts;
+}
+
+export interface AnalysisResult {
+  index: number;
+  analysis: {
+    content: string;
+    category: string;
+    extracted_text: string;
+    main_theme: string;
+    tags: string[];
+    content_type?: ContentType;
+    details?: ContentDetails;
+    transcript?: Transcript;
+    confidence: number;
+  };
+  status: ResultStatus;
+  // Why the result is a fallback or failed
+  error?: string;
+  parseStatus: ParseStatus;
+  categorizedBy: 'rule' | 'model';
+  fileType: FileType;
+  fileName: string;
+  hash?: string;
+  cached: boolean;
+  metadata?: CaptureMetadata;
+  perceptualHash?: string;
+  duplicate?: DuplicateInfo;
+  sensitivity?: SensitivityReport;
+  usage?: TokenUsage;
+}
+
+// `textField` names the answer field the text layer should fill, if any
+function buildPdfPrompt(basePrompt: string, documentText: string | undefined, hasImage: boolean, textField?: string) {
+  const source = hasImage
+    ? 'The image is the rendered first page of a PDF document.'
+    : 'The PDF could not be rendered, so no image is attached. Base your analysis on its text layer alone.';
+  if (!documentText) return `${basePrompt}\n\n${source}`;
+
+  return `${basePrompt}
+
+${source} Its embedded text layer is reproduced below. Prefer it over reading text from the image${textField ? `, and use it for "${textField}"` : ''}:
+"""
+${documentText}
+"""`;
+}
+
+// Extensions of image formats browsers often upload without an image/ type
+const IMAGE_EXTENSIONS = /\.(heic|heif|avif)$/i;
+
+async function imageItem(buffer: Buffer, image: NormalizedImage | undefined, name: string | undefined, metadata: CaptureMetadata | undefined, sourceIndex?: number): Promise<PipelineItem> {
+  if (!image) console.error(`Could not decode image ${name ?? '(data URL)'}`);
+  return {
+    type: 'image',
+    data: image ? `data:${image.mimeType};base64,${image.buffer.toString('base64')}` : undefined,
+    name,
+    hash: sha256(image?.buffer ?? buffer),
+    perceptualHash: image ? await perceptualHash(image.buffer) : undefined,
+    metadata,
+    sourceIndex
+  };
+}
+
+/**
+ * Turns uploaded files and data: URLs into model-ready items. Formats are
+ * detected from the bytes; files that are neither PDFs nor decodable images
+ * are dropped, so callers should check the result is not empty.
+ * `lastModified[i]` is the client-side modification time of `files[i]`,
+ * which multipart uploads do not carry on the File itself.
+ */
+export async function prepareItems(files: File[], imageDataUrls: string[] = [], lastModified: Array<number | undefined> = []): Promise<PipelineItem[]> {
+  const allItems: PipelineItem[] = [];
+  
+  // PDFs are rendered and their text layer extracted; images are normalized
+  for (const [fileIndex, file] of files.entries()) {
+    const fileLastModified = lastModified[fileIndex];
+    const buffer = Buffer.from(await file.arrayBuffer());
+    if (isPdf(file) || looksLikePdf(buffer)) {
+      try {
+        const pdf = await extractPdf(buffer);
+        allItems.push({
+          type: 'pdf',
+          data: pdf.image ? `data:image/png;base64,${pdf.image.toString('base64')}` : undefined,
+          name: file.name,
+          documentText: pdf.text,
+          hash: sha256(buffer),
+          metadata: pdfCaptureMetadata(file.name, pdf.creationDate, fileLastModified, pdf.pageWidth, pdf.pageHeight),
+          sourceIndex: fileIndex
+        });
+      } catch (error) {
+        console.error(`Could not read PDF ${file.name}:`, error);
+        allItems.push({
+          type: 'pdf',
+          name: file.name,
+          hash: sha256(buffer),
+          metadata: pdfCaptureMetadata(file.name, undefined, fileLastModified),
+          sourceIndex: fileIndex
+        });
+      }
+    } else {
+      const image = await normalizeImage(buffer);
+      // Files not labelled as images are only kept when their bytes decode as one
+      if (!image && !file.type.startsWith('image/') && !IMAGE_EXTENSIONS.test(file.name)) continue;
+      // Metadata has to come from the original bytes; normalizing drops EXIF
+      const metadata = await readCaptureMetadata(buffer, file.name, fileLastModified);
+      allItems.push(await imageItem(buffer, image, file.name, metadata, fileIndex));
+    }
+  }
+  
+  // Add image URLs from JSON payload
+  for (const imageData of imageDataUrls) {
+    const buffer = Buffer.from(imageData.replace(/^data:[^,]*,/, ''), 'base64');
+    allItems.push(await imageItem(buffer, await normalizeImage(buffer), undefined, undefined));
+  }
+
+  return allItems;
+}
+
+// PHASE 1: Analyze a single image to extract content and text.
+// The phase-1 prompt deliberately ignores the user's grouping instructions so
+// its answers can be cached; those only steer phase 2.
+
+// Part of the analysis cache key: bump it whenever the phase-1 prompts or the
+// way their answers are post-processed change
+export const ANALYSIS_PROMPT_VERSION = '6';
+
+const ANALYSIS_FIELDS = `  "content": "brief content description using underscores (payslip_document, react_error, login_form, api_response, pdf_document, salary_statement, website_page, photo, diagram, etc.)",
+  "extracted_text": "key visible text from the document content (up to 150 characters, focus on meaningful text not UI labels)",
+  "main_theme": "single word describing the primary theme (finance, coding, design, personal, business, error, social, etc.)",
+  "tags": ["1-5 single-word topics the image is about, main theme first; e.g. a failing payment API call is both finance and coding"],
+  "content_type": "${describeContentTypes()}",
+  "confidence": 85,
+  "sensitivity": "none",
+  "sensitive_regions": [],
+  "details": {}`;
+
+const SENSITIVITY_INSTRUCTIONS = `Set "sensitivity" to "high" when the image shows something that must not be shared: passwords, API keys or access tokens, private keys, card or bank account numbers, government ID numbers. Use "low" for personal details such as email addresses, phone numbers or home addresses, and "none" otherwise. List every such area in "sensitive_regions" as {"label": "api_key", "x": 0.1, "y": 0.42, "width": 0.6, "height": 0.05}, with x and y the top-left corner and all four values fractions of the image width and height. Leave the list empty when nothing is sensitive.`;
+
+const DETAILS_INSTRUCTIONS = `Fill "details" with the fields of the content type below, and leave it as {} for "other". Use an empty string or an empty list for anything that is not visible; never guess.
+
+${describeDetailFields()}`;
+
+const BASE_ANALYSIS_PROMPT = `You are analyzing an image to extract key information. Look carefully at all visible content, text, UI elements, and context clues.
+
+Analyze this image and return ONLY a valid JSON object with this exact structure:
+
+{
+${ANALYSIS_FIELDS}
+}
+
+${SENSITIVITY_INSTRUCTIONS}
+
+${DETAILS_INSTRUCTIONS}`;
+
+function buildBatchPrompt(imageCount: number) {
+  return `You are analyzing ${imageCount} images to extract key information. Each image follows a label "Image 0", "Image 1" and so on. Analyze every image on its own, looking carefully at all visible content, text, UI elements, and context clues.
+
+Return ONLY a valid JSON object of the form {"images": [...]} with exactly one entry per image, where "image" is the number from the image's label and each entry has this exact structure:
+
+{
+  "image": 0,
+${ANALYSIS_FIELDS}
+}
+
+${SENSITIVITY_INSTRUCTIONS}
+
+${DETAILS_INSTRUCTIONS}`;
+}
+
+export interface AnalyzeOptions {
+  // Set to false to skip cache reads; fresh answers are still written back
+  useCache?: boolean;
+}
+
+function cacheKeyFor(provider: VisionProvider, item: PipelineItem) {
+  return ANALYSIS_CACHE_ENABLED && item.hash
+    ? analysisCacheKey(item.hash, ANALYSIS_PROMPT_VERSION, provider)
+    : undefined;
+}
+
+/**
+ * The cached phase-1 answer for an item, when the same content was already
+ * analyzed by the same model and prompt version.
+ */
+async function readCachedItem(provider: VisionProvider, item: PipelineItem, index: number, options: AnalyzeOptions): Promise<ImageAnalysis | undefined> {
+  const cacheKey = cacheKeyFor(provider, item);
+  if (!cacheKey || options.useCache === false) return undefined;
+  const cached = await readCachedAnalysis(cacheKey);
+  if (!cached) return undefined;
+  return {
+    ...cached,
+    index,
+    fileName: item.name || `${item.type}_${index + 1}`,
+    fileType: item.type,
+    hash: item.hash,
+    cached: true,
+    metadata: item.metadata,
+    // Only usable answers are cached; entries written before statuses existed lack one
+    status: 'success',
+    usage: undefined
+  };
+}
+
+async function storeAnalysis(provider: VisionProvider, item: PipelineItem, analysis: ImageAnalysis): Promise<ImageAnalysis> {
+  const cacheKey = cacheKeyFor(provider, item);
+  // Placeholders are not worth keeping; the next run should ask the model again
+  if (cacheKey && analysis.parseStatus !== 'fallback') {
+    await writeCachedAnalysis(cacheKey, { ...analysis, usage: undefined });
+  }
+  // Metadata describes this upload rather than the content, so it is never cached
+  return { ...analysis, metadata: item.metadata };
+}
+
+export interface AnalyzeItemsOptions extends AnalyzeOptions {
+  // Index of items[0]; for callers that analyze a large batch in chunks
+  startIndex?: number;
+  // Model requests in flight at once; a batched request counts once
+  concurrency?: number;
+  // Images per model request; see resolveBatchSize
+  batchSize?: number;
+  // Analyses of earlier chunks of the same batch, so duplicates across chunks are found
+  known?: ImageAnalysis[];
+  // Collects token usage across calls; pass the same meter for every chunk of a run
+  usage?: UsageMeter;
+  // Also transcribe code, terminal and error images verbatim; cached analyses
+  // without a transcript get one
+  transcribe?: boolean;
+  // Aborted when nobody wants the answers any more, e.g. a client disconnected:
+  // calls not yet sent are dropped and the run rejects
+  signal?: AbortSignal;
+  // Called as each analysis is ready; representatives first, then their duplicates
+  onAnalysis?: (analysis: ImageAnalysis) => void;
+}
+
+type IndexedItem = { item: PipelineItem; index: number };
+
+// Only decoded images are packed together; PDFs need their own prompt with
+// the text layer, and items without an image fail on their own
+function planRequests(pending: IndexedItem[], batchSize: number): IndexedItem[][] {
+  const batchable = pending.filter(({ item }) => item.type === 'image' && item.data);
+  const requests: IndexedItem[][] = [];
+  for (let start = 0; start < batchable.length; start += batchSize) {
+    requests.push(batchable.slice(start, start + batchSize));
+  }
+  return [...requests, ...pending.filter(entry => !batchable.includes(entry)).map(entry => [entry])];
+}
+
+/**
+ * Runs phase 1 for a batch. Exact and near-duplicate uploads are grouped
+ * first: only the first copy goes to the model, the others reuse its answer
+ * with their own file name, hash and metadata. With a batch size above 1,
+ * images missing from the cache are sent several per request; a batch whose
+ * answers cannot be mapped back is re-sent one image at a time.
+ */
+export async function analyzeItems(provider: VisionProvider, items: PipelineItem[], options: AnalyzeItemsOptions = {}): Promise<ImageAnalysis[]> {
+  const { signal } = options;
+  const model = signal ? withSignal(provider, signal) : provider;
+  const startIndex = options.startIndex ?? 0;
+  const meter = options.usage ?? createUsageMeter();
+  const representatives: DuplicateCandidate[] = (options.known ?? []).filter(analysis => !analysis.duplicate);
+  const duplicates = new Map<number, DuplicateInfo>();
+  items.forEach((item, offset) => {
+    const candidate = { index: startIndex + offset, hash: item.hash, perceptualHash: item.perceptualHash };
+    const duplicate = findDuplicate(candidate, representatives);
+    if (duplicate) duplicates.set(candidate.index, duplicate); else representatives.push(candidate);
+  });
+
+  const analyses: ImageAnalysis[] = new Array(items.length);
+  const finish = (item: PipelineItem, analysis: ImageAnalysis) => {
+    // An analysis that failed because the run was cancelled is neither kept nor reported
+    signal?.throwIfAborted();
+    const complete = { ...analysis, perceptualHash: item.perceptualHash };
+    analyses[analysis.index - startIndex] = complete;
+    options.onAnalysis?.(complete);
+  };
+
+  const transcribe = async (item: PipelineItem, analysis: ImageAnalysis) =>
+    options.transcribe && needsTranscript(analysis) ? transcribeItem(model, item, analysis, meter) : analysis;
+
+  // Cache hits are answered first so that only the rest is sent (and batched)
+  const pending: IndexedItem[] = [];
+  const untranscribed: Array<{ item: PipelineItem; analysis: ImageAnalysis }> = [];
+  const toAnalyze = items.map((item, offset) => ({ item, index: startIndex + offset })).filter(({ index }) => !duplicates.has(index));
+  for (const entry of toAnalyze) {
+    const cached = await readCachedItem(provider, entry.item, entry.index, options);
+    if (!cached) pending.push(entry);
+    else if (options.transcribe && needsTranscript(cached)) untranscribed.push({ item: entry.item, analysis: cached });
+    else finish(entry.item, cached);
+  }
+
+  const requests = planRequests(pending, resolveBatchSize(options.batchSize));
+  await mapWithConcurrency(requests, options.concurrency ?? requests.length, async request => {
+    const batched = request.length > 1 ? await analyzeBatchUncached(model, request, meter) : undefined;
+    for (const [position, { item, index }] of request.entries()) {
+      const analysis = batched?.[position] ?? await analyzeItemUncached(model, item, index, meter);
+      const transcribed = await transcribe(item, analysis);
+      signal?.throwIfAborted();
+      finish(item, await storeAnalysis(provider, item, transcribed));
+    }
+  });
+  await mapWithConcurrency(untranscribed, options.concurrency ?? untranscribed.length, async ({ item, analysis }) => {
+    const transcribed = await transcribe(item, analysis);
+    signal?.throwIfAborted();
+    finish(item, await storeAnalysis(provider, item, transcribed));
+  });
+
+  const byIndex = new Map([...(options.known ?? []), ...analyses.filter(Boolean)].map(analysis => [analysis.index, analysis]));
+  for (const [index, duplicate] of duplicates) {
+    const item = items[index - startIndex];
+    const representative = byIndex.get(duplicate.of)!;
+    const analysis: ImageAnalysis = {
+      ...representative,
+      index,
+      fileName: item.name || `${item.type}_${index + 1}`,
+      fileType: item.type,
+      hash: item.hash,
+      perceptualHash: item.perceptualHash,
+      cached: false,
+      metadata: item.metadata,
+      duplicate,
+      sensitivity: nearDuplicateSensitivity(representative.sensitivity, duplicate),
+      usage: undefined
+    };
+    analyses[index - startIndex] = analysis;
+    options.onAnalysis?.(analysis);
+  }
+  return analyses;
+}
+
+// Every call carries `signal`, so a scheduled provider drops the calls that
+// have not been sent once it is aborted
+function withSignal(provider: VisionProvider, signal: AbortSignal): VisionProvider {
+  return {
+    id: provider.id,
+    model: provider.model,
+    analyzeImage: request => provider.analyzeImage({ ...request, signal }),
+    analyzeImages: request => provider.analyzeImages({ ...request, signal }),
+    categorize: request => provider.categorize({ ...request, signal })
+  };
+}
+
+// A near-duplicate is a different image (cropped, resized or re-saved), so the
+// representative's regions would miss the secret in it; it is covered entirely
+function nearDuplicateSensitivity(report: SensitivityReport | undefined, duplicate: DuplicateInfo): SensitivityReport | undefined {
+  if (!report || duplicate.kind === 'exact' || report.regions.length === 0) return report;
+  return { ...report, regions: [WHOLE_IMAGE] };
+}
+
+// Item data is always a base64 data: URL produced by prepareItems
+function imageInput(item: PipelineItem) {
+  const [, mimeType, data] = item.data?.match(/^data:([^;,]+);base64,([\s\S]*)$/) ?? [];
+  return item.data ? { data, mimeType } : undefined;
+}
+
+function analysisFromModel(item: PipelineItem, index: number, answer: ModelAnalysis, parseStatus: ParseStatus, usage: TokenUsage): ImageAnalysis {
+  const extractedText = (answer.extracted_text || item.documentText || "").substring(0, 150);
+  const mainTheme = (answer.main_theme.trim() || 'misc').toLowerCase();
+  const contentType = isContentType(answer.content_type) ? answer.content_type : undefined;
+  return {
+    index,
+    content: (answer.content.trim() || `image_document_${index + 1}`).replace(/\s+/g, '_'),
+    extracted_text: extractedText,
+    main_theme: mainTheme,
+    tags: normalizeTags(answer.tags, mainTheme),
+    content_type: contentType,
+    details: contentType ? toDetails(contentType, answer.details) : undefined,
+    confidence: Math.round(answer.confidence),
+    fileName: item.name || `${item.type}_${index + 1}`,
+    fileType: item.type,
+    parseStatus,
+    status: 'success',
+    hash: item.hash,
+    cached: false,
+    // The full text layer of a PDF is scanned, not just the excerpt
+    sensitivity: assessSensitivity([extractedText, item.documentText].filter(Boolean).join('\n'), {
+      level: answer.sensitivity,
+      regions: answer.sensitive_regions
+    }),
+    usage
+  };
+}
+
+// Every image position has to be answered exactly once
+function checkBatchAnswers(value: ModelBatchAnalysis, imageCount: number): string[] {
+  const errors: string[] = [];
+  const seen = new Set<number>();
+  for (const answer of value.images) {
+    if (answer.image >= imageCount) {
+      errors.push(`There is an answer for image ${answer.image}, but only images 0-${imageCount - 1} were sent`);
+    } else if (seen.has(answer.image)) {
+      errors.push(`Image ${answer.image} is answered more than once`);
+    } else {
+      seen.add(answer.image);
+    }
+  }
+  for (let image = 0; image < imageCount; image++) {
+    if (!seen.has(image)) errors.push(`Image ${image} has no answer`);
+  }
+  return errors;
+}
+
+/**
+ * Sends several images in one request. Returns undefined when the answers
+ * cannot be mapped back to the images, so the caller can fall back to one
+ * request per image.
+ */
+async function analyzeBatchUncached(provider: VisionProvider, request: IndexedItem[], meter: UsageMeter): Promise<ImageAnalysis[] | undefined> {
+  const images = request.map(({ item }) => ({ image: imageInput(item)!, fileName: item.name }));
+  const result = await requestStructured<ModelBatchAnalysis>(
+    prompt => provider.analyzeImages({ prompt, images, responseSchema: BATCH_ANALYSIS_SCHEMA }),
+    buildBatchPrompt(request.length),
+    BATCH_ANALYSIS_SCHEMA,
+    value => checkBatchAnswers(value, request.length)
+  ).catch((error): StructuredResult<ModelBatchAnalysis> => ({ ok: false, errors: [String(error)], usage: emptyCounts() }));
+  addCounts(meter.analysis, result.usage);
+
+  const indexes = request.map(({ index }) => index).join(', ');
+  if (!result.ok) {
+    console.error(`Batched analysis of images ${indexes} unusable, analyzing them one at a time:`, result.errors);
+    meter.batchFallbacks++;
+    return undefined;
+  }
+
+  const usage = shareUsage(priceUsage(provider, result.usage), request.length);
+  return request.map(({ item, index }, position) =>
+    analysisFromModel(item, index, result.value.images.find(answer => answer.image === position)!, result.parseStatus, usage)
+  );
+}
+
+async function analyzeItemUncached(provider: VisionProvider, item: PipelineItem, index: number, meter: UsageMeter): Promise<ImageAnalysis> {
+  try {
+    if (!item.data && !item.documentText) {
+      throw new Error(item.type === 'pdf' ? 'PDF has neither a renderable page nor a text layer' : 'Image could not be decoded');
+    }
+
+    const prompt = item.type === 'pdf'
+      ? buildPdfPrompt(BASE_ANALYSIS_PROMPT, item.documentText, Boolean(item.data), 'extracted_text')
+      : BASE_ANALYSIS_PROMPT;
+    const image = imageInput(item);
+    
+    const result = await requestStructured<ModelAnalysis>(
+      prompt => provider.analyzeImage({ prompt, kind: 'analysis', image, fileName: item.name, responseSchema: ANALYSIS_SCHEMA }),
+      prompt,
+      ANALYSIS_SCHEMA
+    );
+    addCounts(meter.analysis, result.usage);
+    const usage = priceUsage(provider, result.usage);
+    
+    if (!result.ok) {
+      console.error(`Invalid analysis for image ${index} after repair attempt:`, result.errors);
+      return {
+        index,
+        content: `image_document_${index + 1}`,
+        extracted_text: item.documentText?.substring(0, 150) || "Could not extract text",
+        main_theme: "misc",
+        tags: [],
+        confidence: 20,
+        fileName: item.name || `${item.type}_${index + 1}`,
+        fileType: item.type,
+        parseStatus: 'fallback',
+        status: 'fallback',
+        error: `The model answer was unusable: ${result.errors.slice(0, 3).join('; ')}`,
+        hash: item.hash,
+        cached: false,
+        sensitivity: assessSensitivity(item.documentText ?? ''),
+        usage
+      };
+    }
+    
+    return analysisFromModel(item, index, result.value, result.parseStatus, usage);
+    
+  } catch (error) {
+    console.error(`Error in initial analysis for image ${index}:`, error);
+    return {
+      index,
+      content: `error_image_${index + 1}`,
+      extracted_text: "Processing failed",
+      main_theme: "misc",
+      tags: [],
+      confidence: 0,
+      fileName: item.name || `${item.type}_${index + 1}`,
+      fileType: item.type,
+      parseStatus: 'fallback',
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      hash: item.hash,
+      cached: false,
+      sensitivity: assessSensitivity(item.documentText ?? '')
+    };
+  }
+}
+
+// Verbatim text of a code, terminal or error image, with a request of its
+// own; a failed transcription leaves the analysis as it is
+async function transcribeItem(provider: VisionProvider, item: PipelineItem, analysis: ImageAnalysis, meter: UsageMeter): Promise<ImageAnalysis> {
+  try {
+    const basePrompt = buildTranscriptionPrompt(analysis.content_type!);
+    const prompt = item.type === 'pdf' ? buildPdfPrompt(basePrompt, item.documentText, Boolean(item.data), 'text') : basePrompt;
+    const result = await requestStructured<Record<string, unknown>>(
+      prompt => provider.analyzeImage({ prompt, kind: 'transcript', image: imageInput(item), fileName: item.name, responseSchema: TRANSCRIPT_SCHEMA }),
+      prompt,
+      TRANSCRIPT_SCHEMA
+    );
+    addCounts(meter.analysis, result.usage);
+    const transcriptionUsage = priceUsage(provider, result.usage);
+    const usage = analysis.usage ? addUsage(analysis.usage, transcriptionUsage) : transcriptionUsage;
+    if (!result.ok) {
+      console.error(`Invalid transcript for image ${analysis.index} after repair attempt:`, result.errors);
+      return { ...analysis, usage };
+    }
+    return { ...analysis, transcript: toTranscript(result.value), usage };
+  } catch (error) {
+    console.error(`Error transcribing image ${analysis.index}:`, error);
+    return analysis;
+  }
+}
+
+// PHASE 2: Create smart categories based on all the analyzed content.
+// Profile rules run around the model call: `before` rules file matching
+// images without asking the model, `after` rules override its answer. With
+// `existing` categories (from earlier runs or a folder structure), images go
+// into those first and every category is marked as reused or new.
+export async function categorizeAnalyses(
+  provider: VisionProvider,
+  initialAnalyses: ImageAnalysis[],
+  userPrompt?: string,
+  profile?: OrganizationProfile,
+  existing: ExistingCategory[] = []
+): Promise<Categorization> {
+  // Failed analyses have nothing to categorize by, so they stay uncategorized
+  // until they are retried
+  if (initialAnalyses.some(analysis => analysis.status === 'failed')) {
+    const categorization = await categorizeAnalyses(
+      provider,
+      initialAnalyses.filter(analysis => analysis.status !== 'failed'),
+      userPrompt,
+      profile,
+      existing
+    );
+    const failed = initialAnalyses.filter(analysis => analysis.status === 'failed').map(analysis => analysis.index);
+    categorization.categories[UNCATEGORIZED] ??= { description: 'Files that could not be analyzed', images: [] };
+    categorization.categories[UNCATEGORIZED].images.push(...failed);
+    return categorization;
+  }
+
+  // Duplicates are not shown to the model; they follow their representative
+  if (initialAnalyses.some(analysis => analysis.duplicate)) {
+    const categorization = await categorizeAnalyses(
+      provider,
+      initialAnalyses.filter(analysis => !analysis.duplicate),
+      userPrompt,
+      profile,
+      existing
+    );
+    for (const analysis of initialAnalyses) {
+      if (!analysis.duplicate) continue;
+      const representative = analysis.duplicate.of;
+      Object.values(categorization.categories).find(info => info.images.includes(representative))?.images.push(analysis.index);
+      if (categorization.ruleAssigned.includes(representative)) categorization.ruleAssigned.push(analysis.index);
+    }
+    return categorization;
+  }
+
+  const rules = compileRules(profile?.rules ?? []);
+  const ruleAssigned = new Map<number, string>();
+  for (const analysis of initialAnalyses) {
+    const category = matchRule(rules, 'before', analysis);
+    if (category) ruleAssigned.set(analysis.index, category);
+  }
+
+  const remaining = initialAnalyses.filter(analysis => !ruleAssigned.has(analysis.index));
+  const instructions = [profile?.instructions, userPrompt].filter(Boolean).join('\n') || undefined;
+  const { categories, parseStatus, usage } = remaining.length > 0
+    ? await categorizeWithModel(provider, remaining, instructions, profile?.taxonomy, existing)
+    : { categories: {}, parseStatus: 'parsed' as const, usage: emptyCounts() };
+
+  for (const analysis of initialAnalyses) {
+    const category = matchRule(rules, 'after', analysis);
+    if (category) ruleAssigned.set(analysis.index, category);
+  }
+
+  for (const [index, category] of ruleAssigned) {
+    for (const info of Object.values(categories)) {
+      info.images = info.images.filter(image => image !== index);
+    }
+    categories[category] ??= {
+      description: profile?.taxonomy.find(entry => entry.name === category)?.description ??
+        (findExistingCategory(category, existing)?.description || `Filed by rule`),
+      images: []
+    };
+    categories[category].images.push(index);
+  }
+
+  const complete = pruneEmptyCategories(withParentCategories(categories));
+  return {
+    categories: existing.length > 0 ? markCategoryOrigins(complete, existing) : complete,
+    parseStatus,
+    ruleAssigned: [...ruleAssigned.keys()],
+    usage
+  };
+}
+
+async function categorizeWithModel(
+  provider: VisionProvider,
+  initialAnalyses: ImageAnalysis[],
+  userPrompt: string | undefined,
+  taxonomy: OrganizationProfile['taxonomy'] = [],
+  existing: ExistingCategory[] = []
+): Promise<Omit<Categorization, 'ruleAssigned'>> {
+  // Parents of nested fixed categories may be listed too
+  const allowedNames = taxonomy.length > 0
+    ? [...new Set([...taxonomy.flatMap(entry => [...categoryAncestors(entry.name), entry.name]), UNCATEGORIZED])]
+    : undefined;
+  // Fixed categories leave nothing to reuse or propose
+  const reusable = allowedNames ? [] : existing;
+
+  const categoryPrompt = `Based on the following image analysis results, create smart categories that group similar content together. Create broader categories, and nest more specific ones inside them where that helps.
+
+Image Analysis Results:
+${initialAnalyses.map((analysis, i) => 
+  `Image ${i}: Content="${analysis.content}", Text="${analysis.extracted_text}", Theme="${analysis.main_theme}", Tags="${(analysis.tags ?? []).join(', ')}", File="${analysis.fileName}"${describeMetadata(analysis.metadata)}`
+).join('\n')}
+
+${userPrompt ? `
+USER INSTRUCTIONS:
+The user has provided the following custom instructions for organizing their files:
+"${userPrompt}"
+
+IMPORTANT: Follow the user's instructions as closely as possible while maintaining the JSON structure. If the user specifies custom grouping criteria, apply them when creating the categories.` : ''}
+${taxonomy.length > 0 ? `
+FIXED CATEGORIES:
+Do not invent categories. Assign every image to one of these, using "${UNCATEGORIZED}" only when none fits:
+${taxonomy.map(entry => `- ${entry.name}: ${entry.description}`).join('\n')}
+` : ''}${reusable.length > 0 ? `
+EXISTING CATEGORIES:
+These categories already exist from earlier runs. File each image into the one that fits best, using its exact name. Only create a new category when none of them fits, and give every new category a "justification" saying why none of the existing ones fit:
+${reusable.map(category => `- ${category.name}${category.description ? `: ${category.description}` : ''}`).join('\n')}
+` : ''}
+Create categories that make logical sense based on the actual content. Return ONLY a valid JSON object with this structure:
+
+{
+  "categories": [
+    {
+      "name": "category_name_1",
+      "description": "Brief description of what this category contains",
+      "images": [0, 1, 3]
+    },
+    {
+      "name": "category_name_2",
+      "description": "Brief description of what this category contains", 
+      "images": []
+    },
+    {
+      "name": "category_name_2/subcategory_name",
+      "description": "Brief description of what this subcategory contains",
+      "images": [2, 4]
+    }
+  ]
+}
+
+Guidelines:
+- Use descriptive category names (e.g., "financial_documents", "code_errors", "ui_designs", "personal_photos")
+- Each image index should appear in exactly one category
+- ${taxonomy.length > 0
+    ? 'Only use the fixed categories listed above'
+    : reusable.length > 0
+      ? 'Reuse the existing categories listed above wherever they fit; new categories need a "justification"'
+      : 'Create 2-6 top-level categories based on natural groupings'}
+- Nest a category inside another by joining the names with "/" (e.g., "finance/payslips/2025", "coding/errors/react"), at most ${MAX_CATEGORY_DEPTH} levels deep. List every parent as a category of its own with a description; its "images" may be empty
+- Consider content type, theme, and extracted text for grouping
+- Capture dates, devices and whether an image is a screenshot may help when content alone is ambiguous`;
+
+  const result = await requestStructured<ModelCategorization>(
+    prompt => provider.categorize({ prompt, analyses: initialAnalyses, responseSchema: CATEGORIZATION_SCHEMA }),
+    categoryPrompt,
+    CATEGORIZATION_SCHEMA,
+    value => [
+      ...checkCategoryAssignments(value, initialAnalyses.length),
+      ...checkCategoryDepth(value),
+      ...(allowedNames ? checkCategoryNames(value, allowedNames) : []),
+      ...(reusable.length > 0 ? checkJustifications(value, reusable) : [])
+    ]
+  ).catch((error): StructuredResult<ModelCategorization> => ({ ok: false, errors: [String(error)], usage: emptyCounts() }));
+
+  // The model numbers images by their position in the prompt; the returned
+  // map uses each analysis's own index instead
+  if (result.ok) {
+    const categories: CategoryMap = {};
+    for (const category of result.value.categories) {
+      // Names that only differ in spacing, or in case from an existing
+      // category, end up as the same category
+      const reused = findExistingCategory(category.name, reusable);
+      const name = reused?.name ?? (normalizeCategoryName(category.name) || UNCATEGORIZED);
+      categories[name] ??= {
+        description: taxonomy.find(entry => entry.name === name)?.description ?? (reused?.description || category.description),
+        images: []
+      };
+      if (reusable.length > 0 && !reused && category.justification?.trim()) {
+        categories[name].justification ??= category.justification.trim();
+      }
+      categories[name].images.push(...category.images.map(position => initialAnalyses[position].index));
+    }
+    return { categories: withParentCategories(categories), parseStatus: result.parseStatus, usage: result.usage };
+  }
+
+  console.error("Error creating categories:", result.errors);
+  // Fallback: create categories based on main themes
+  const categories: CategoryMap = {};
+  initialAnalyses.forEach(analysis => {
+    const name = allowedNames ? UNCATEGORIZED : analysis.main_theme;
+    categories[name] ??= { description: allowedNames ? 'Images the model could not file' : `Images related to ${name}`, images: [] };
+    categories[name].images.push(analysis.index);
+  });
+  return { categories, parseStatus: 'fallback', usage: result.usage };
+}
+
+function checkCategoryDepth(value: ModelCategorization): string[] {
+  return value.categories
+    .filter(category => categoryDepth(normalizeCategoryName(category.name)) > MAX_CATEGORY_DEPTH)
+    .map(category => `"${category.name}" is nested more than ${MAX_CATEGORY_DEPTH} levels deep`);
+}
+
+// New categories holding images have to say why no existing one fits
+function checkJustifications(value: ModelCategorization, existing: ExistingCategory[]): string[] {
+  return value.categories
+    .filter(category => category.images.length > 0 && normalizeCategoryName(category.name) !== UNCATEGORIZED)
+    .filter(category => !findExistingCategory(category.name, existing) && !category.justification?.trim())
+    .map(category => `"${category.name}" is not an existing category; use one of the existing categories or add a "justification" saying why none fits`);
+}
+
+function checkCategoryNames(value: ModelCategorization, allowedNames: string[]): string[] {
+  return value.categories
+    .filter(category => !allowedNames.includes(category.name))
+    .map(category => `"${category.name}" is not one of the fixed categories: ${allowedNames.join(', ')}`);
+}
+
+function describeMetadata(metadata: CaptureMetadata | undefined) {
+  if (!metadata) return '';
+  const parts: string[] = [];
+  if (metadata.capturedAt) parts.push(`Captured="${metadata.capturedAt.split('T')[0]}"`);
+  if (metadata.width && metadata.height) parts.push(`Size="${metadata.width}x${metadata.height}"`);
+  if (metadata.device) parts.push(`Device="${metadata.device}"`);
+  parts.push(`Screenshot=${metadata.isScreenshot ? 'yes' : 'unknown'}`);
+  return `, ${parts.join(', ')}`;
+}
+
+// Every image index has to be in range and assigned exactly once
+function checkCategoryAssignments(value: ModelCategorization, imageCount: number): string[] {
+  const errors: string[] = [];
+  const seen = new Map<number, string>();
+  for (const category of value.categories) {
+    for (const index of category.images) {
+      if (index >= imageCount) {
+        errors.push(`Category "${category.name}" lists image ${index}, but only indexes 0-${imageCount - 1} exist`);
+      } else if (seen.has(index)) {
+        errors.push(`Image ${index} is in both "${seen.get(index)}" and "${category.name}"`);
+      } else {
+        seen.set(index, category.name);
+      }
+    }
+  }
+  for (let index = 0; index < imageCount; index++) {
+    if (!seen.has(index)) errors.push(`Image ${index} is not in any category`);
+  }
+  return errors;
+}
+
+// Duplicates reused another upload's answer and count as neither
+export function summarizeCache(analyses: ImageAnalysis[]) {
+  const hits = analyses.filter(analysis => analysis.cached).length;
+  const duplicates = analyses.filter(analysis => analysis.duplicate).length;
+  return { hits, misses: analyses.length - hits - duplicates, duplicates };
+}
+
+// PHASE 3: Build final results with categories
+export function buildResults(initialAnalyses: ImageAnalysis[], categories: CategoryMap, ruleAssigned: number[] = []): AnalysisResult[] {
+  return initialAnalyses.map(analysis => {
+    // Find which category this image belongs to
+    const categoryEntry = Object.entries(categories)
+      .find(([, categoryInfo]) => 
+        Array.isArray(categoryInfo.images) && categoryInfo.images.includes(analysis.index)
+      );
+    
+    const categoryName = categoryEntry ? categoryEntry[0] : UNCATEGORIZED;
+    
+    return {
+      index: analysis.index,
+      analysis: {
+        content: analysis.content,
+        category: categoryName,
+        extracted_text: analysis.extracted_text,
+        main_theme: analysis.main_theme,
+        tags: analysis.tags,
+        content_type: analysis.content_type,
+        details: analysis.details,
+        transcript: analysis.transcript,
+        confidence: analysis.confidence
+      },
+      status: analysis.status,
+      error: analysis.error,
+      parseStatus: analysis.parseStatus,
+      categorizedBy: ruleAssigned.includes(analysis.index) ? 'rule' : 'model',
+      fileType: analysis.fileType,
+      fileName: analysis.fileName,
+      hash: analysis.hash,
+      cached: analysis.cached,
+      metadata: analysis.metadata,
+      perceptualHash: analysis.perceptualHash,
+      duplicate: analysis.duplicate,
+      sensitivity: analysis.sensitivity,
+      usage: analysis.usage
+    };
+  });
+}
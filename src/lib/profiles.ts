@@ -0,0 +1,131 @@
+import { checkRules } from "./rules";
+import { validate, type JsonSchema } from "./schemas";
+import { dataPath, readJsonFile, writeJsonFile } from "./storage";
+import type { OrganizationProfile } from "./types";
+
+const PROFILES_FILE = dataPath('profiles.json');
+
+export const BUILT_IN_PROFILES: OrganizationProfile[] = [
+  {
+    id: 'personal-archive',
+    name: 'Personal archive',
+    description: 'A fixed set of folders for everyday screenshots, with receipts always filed together',
+    taxonomy: [
+      { name: 'receipts', description: 'Receipts, invoices, order confirmations and payslips' },
+      { name: 'coding', description: 'Code, terminals, stack traces and API responses' },
+      { name: 'conversations', description: 'Chats, emails and social media threads' },
+      { name: 'documents', description: 'Letters, forms, statements and other documents' },
+      { name: 'web', description: 'Web pages, articles and app screens' },
+      { name: 'photos', description: 'Photos and everything else without much text' }
+    ],
+    nameTemplate: '{capture_date}_{content}',
+    rules: [
+      { field: 'extracted_text', pattern: 'invoice|receipt|payslip', flags: 'i', category: 'receipts', stage: 'before' },
+      { field: 'content', pattern: 'error|exception|stack_?trace', flags: 'i', category: 'coding', stage: 'after' }
+    ],
+    builtIn: true
+  }
+];
+
+export const PROFILE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: 'string' },
+    taxonomy: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { name: { type: 'string' }, description: { type: 'string' } },
+        required: ['name', 'description']
+      }
+    },
+    nameTemplate: { type: 'string' },
+    instructions: { type: 'string' },
+    rules: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string', enum: ['extracted_text', 'content', 'main_theme', 'fileName'] },
+          pattern: { type: 'string' },
+          flags: { type: 'string' },
+          category: { type: 'string' },
+          stage: { type: 'string', enum: ['before', 'after'] }
+        },
+        required: ['field', 'pattern', 'category', 'stage']
+      }
+    }
+  },
+  required: ['name', 'taxonomy', 'rules']
+};
+
+export class ProfileError extends Error {
+  constructor(message: string, readonly details: string[] = []) {
+    super(message);
+    this.name = 'ProfileError';
+  }
+}
+
+async function readUserProfiles(): Promise<OrganizationProfile[]> {
+  return (await readJsonFile<OrganizationProfile[]>(PROFILES_FILE)) ?? [];
+}
+
+export async function listProfiles(): Promise<OrganizationProfile[]> {
+  return [...BUILT_IN_PROFILES, ...(await readUserProfiles())];
+}
+
+export async function getProfile(id: string): Promise<OrganizationProfile | undefined> {
+  return (await listProfiles()).find(profile => profile.id === id);
+}
+
+function slugify(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'profile';
+}
+
+/**
+ * Creates a profile, or replaces the user profile with the same id. Throws
+ * ProfileError for invalid input and for attempts to overwrite a built-in.
+ */
+export async function saveProfile(input: unknown): Promise<OrganizationProfile> {
+  const errors = validate(PROFILE_SCHEMA, input);
+  if (errors.length > 0) throw new ProfileError('Invalid profile', errors);
+
+  const candidate = input as OrganizationProfile;
+  const ruleErrors = checkRules(candidate.rules);
+  if (ruleErrors.length > 0) throw new ProfileError('Invalid profile', ruleErrors);
+
+  const id = candidate.id || slugify(candidate.name);
+  if (BUILT_IN_PROFILES.some(profile => profile.id === id)) {
+    throw new ProfileError(`"${id}" is a built-in profile and cannot be changed`);
+  }
+
+  const profile: OrganizationProfile = {
+    id,
+    name: candidate.name,
+    description: candidate.description,
+    taxonomy: candidate.taxonomy,
+    nameTemplate: candidate.nameTemplate,
+    instructions: candidate.instructions,
+    rules: candidate.rules
+  };
+
+  const profiles = await readUserProfiles();
+  const existing = profiles.findIndex(p => p.id === id);
+  if (existing >= 0) profiles[existing] = profile; else profiles.push(profile);
+  await writeJsonFile(PROFILES_FILE, profiles);
+  return profile;
+}
+
+// Returns false when there was no user profile with that id
+export async function deleteProfile(id: string): Promise<boolean> {
+  if (BUILT_IN_PROFILES.some(profile => profile.id === id)) {
+    throw new ProfileError(`"${id}" is a built-in profile and cannot be deleted`);
+  }
+  const profiles = await readUserProfiles();
+  const remaining = profiles.filter(profile => profile.id !== id);
+  if (remaining.length === profiles.length) return false;
+  await writeJsonFile(PROFILES_FILE, remaining);
+  return true;
+}
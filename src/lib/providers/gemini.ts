@@ -0,0 +1,69 @@
+import { GoogleGenAI, type GenerateContentResponse, type Part } from "@google/genai";
+import type { JsonSchema } from "../schemas";
+import type { AnalyzeImageRequest, AnalyzeImagesRequest, CategorizeRequest, ProviderResponse, VisionProvider } from "./types";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-pro";
+
+function requestConfig(responseSchema?: JsonSchema, signal?: AbortSignal) {
+  return {
+    abortSignal: signal,
+    ...(responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: responseSchema } : {})
+  };
+}
+
+// Thinking tokens are billed as output
+function toResponse(result: GenerateContentResponse): ProviderResponse {
+  const usage = result.usageMetadata;
+  return {
+    text: result.text?.trim() || '',
+    usage: usage ? {
+      inputTokens: usage.promptTokenCount ?? 0,
+      outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0)
+    } : undefined
+  };
+}
+
+export function createGeminiProvider(options: { apiKey?: string; model?: string } = {}): VisionProvider {
+  const apiKey = options.apiKey ?? process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error("GEMINI_API_KEY is not set. Set it, or use VISION_PROVIDER=stub to run without a model.");
+  }
+
+  const genAI = new GoogleGenAI({ apiKey });
+  const model = options.model || DEFAULT_GEMINI_MODEL;
+
+  async function generate(parts: Part[], responseSchema?: JsonSchema, signal?: AbortSignal): Promise<ProviderResponse> {
+    const result = await genAI.models.generateContent({
+      model,
+      contents: [{ parts, role: "user" }],
+      config: requestConfig(responseSchema, signal)
+    });
+    return toResponse(result);
+  }
+
+  return {
+    id: 'gemini',
+    model,
+
+    analyzeImage({ prompt, image, responseSchema, signal }: AnalyzeImageRequest) {
+      return generate([
+        { text: prompt },
+        ...(image ? [{ inlineData: { data: image.data, mimeType: image.mimeType } }] : [])
+      ], responseSchema, signal);
+    },
+
+    analyzeImages({ prompt, images, responseSchema, signal }: AnalyzeImagesRequest) {
+      return generate([
+        { text: prompt },
+        ...images.flatMap(({ image }, position) => [
+          { text: `Image ${position}:` },
+          { inlineData: { data: image.data, mimeType: image.mimeType } }
+        ])
+      ], responseSchema, signal);
+    },
+
+    categorize({ prompt, responseSchema, signal }: CategorizeRequest) {
+      return generate([{ text: prompt }], responseSchema, signal);
+    }
+  };
+}
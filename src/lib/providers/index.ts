@@ -0,0 +1,40 @@
+import { createGeminiProvider } from "./gemini";
+import { createOpenAICompatibleProvider } from "./openai";
+import { createScheduler, scheduleProvider } from "./scheduler";
+import { createStubProvider } from "./stub";
+import type { ProviderId, VisionProvider } from "./types";
+
+export type * from "./types";
+
+const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai', 'stub'];
+
+export function createProvider(id: ProviderId, model?: string): VisionProvider {
+  switch (id) {
+    case 'gemini':
+      return createGeminiProvider({ model });
+    case 'openai':
+      return createOpenAICompatibleProvider({ model });
+    case 'stub':
+      return createStubProvider();
+  }
+}
+
+let cachedProvider: VisionProvider | undefined;
+
+/**
+ * Returns the provider selected by `VISION_PROVIDER` (default `gemini`), with
+ * `VISION_MODEL` overriding that provider's default model. Its calls are
+ * throttled, timed out and retried by one shared scheduler (see MODEL_* in
+ * scheduler.ts).
+ */
+export function getProvider(): VisionProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const id = (process.env.VISION_PROVIDER || 'gemini').toLowerCase() as ProviderId;
+  if (!PROVIDER_IDS.includes(id)) {
+    throw new Error(`Unknown VISION_PROVIDER "${id}". Expected one of: ${PROVIDER_IDS.join(', ')}`);
+  }
+
+  cachedProvider = scheduleProvider(createProvider(id, process.env.VISION_MODEL || undefined), createScheduler());
+  return cachedProvider;
+}
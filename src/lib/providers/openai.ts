@@ -0,0 +1,101 @@
+import type { JsonSchema } from "../schemas";
+import { ProviderHttpError } from "./scheduler";
+import type { AnalyzeImageRequest, AnalyzeImagesRequest, CategorizeRequest, ProviderResponse, VisionProvider } from "./types";
+
+// Ollama serves an OpenAI-compatible API under /v1 on this port by default
+export const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1";
+export const DEFAULT_OPENAI_MODEL = "llama3.2-vision";
+
+// `json_schema` needs a fairly recent server; `json_object` and `none` are for
+// servers that reject it
+type ResponseFormatMode = 'json_schema' | 'json_object' | 'none';
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function retryAfterMs(header: string | null) {
+  if (!header) return undefined;
+  const ms = /^\d+$/.test(header.trim()) ? Number(header) * 1000 : Date.parse(header) - Date.now();
+  return Number.isFinite(ms) ? Math.max(0, ms) : undefined;
+}
+
+/**
+ * Talks to any server implementing `POST /chat/completions` (OpenAI, Ollama,
+ * LM Studio, vLLM, llama.cpp server, ...).
+ */
+export function createOpenAICompatibleProvider(options: { baseUrl?: string; apiKey?: string; model?: string } = {}): VisionProvider {
+  const baseUrl = (options.baseUrl ?? process.env.OPENAI_BASE_URL ?? DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+  const apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+  const model = options.model || DEFAULT_OPENAI_MODEL;
+  const responseFormatMode = (process.env.OPENAI_RESPONSE_FORMAT || 'json_schema') as ResponseFormatMode;
+
+  function responseFormat(responseSchema?: JsonSchema) {
+    if (!responseSchema || responseFormatMode === 'none') return undefined;
+    if (responseFormatMode === 'json_object') return { type: 'json_object' };
+    return { type: 'json_schema', json_schema: { name: 'response', schema: responseSchema } };
+  }
+
+  async function complete(content: ChatContentPart[], responseSchema?: JsonSchema, signal?: AbortSignal): Promise<ProviderResponse> {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content }],
+        response_format: responseFormat(responseSchema)
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new ProviderHttpError(
+        `${baseUrl} returned ${response.status}: ${detail.slice(0, 200)}`,
+        response.status,
+        retryAfterMs(response.headers.get('retry-after'))
+      );
+    }
+
+    const data = await response.json() as ChatCompletionResponse;
+    return {
+      text: data.choices?.[0]?.message?.content?.trim() || '',
+      usage: data.usage ? { inputTokens: data.usage.prompt_tokens ?? 0, outputTokens: data.usage.completion_tokens ?? 0 } : undefined
+    };
+  }
+
+  return {
+    id: 'openai',
+    model,
+
+    analyzeImage({ prompt, image, responseSchema, signal }: AnalyzeImageRequest) {
+      const content: ChatContentPart[] = [{ type: 'text', text: prompt }];
+      if (image) {
+        content.push({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } });
+      }
+      return complete(content, responseSchema, signal);
+    },
+
+    analyzeImages({ prompt, images, responseSchema, signal }: AnalyzeImagesRequest) {
+      const content: ChatContentPart[] = [{ type: 'text', text: prompt }];
+      images.forEach(({ image }, position) => {
+        content.push({ type: 'text', text: `Image ${position}:` });
+        content.push({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } });
+      });
+      return complete(content, responseSchema, signal);
+    },
+
+    categorize({ prompt, responseSchema, signal }: CategorizeRequest) {
+      return complete([{ type: 'text', text: prompt }], responseSchema, signal);
+    }
+  };
+}
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createScheduler, ModelCallError, ProviderHttpError, type SchedulerOptions } from "./scheduler";
+
+const OPTIONS: SchedulerOptions = {
+  concurrency: 2,
+  timeoutMs: 200,
+  maxRetries: 2,
+  baseDelayMs: 1,
+  breakerThreshold: 10,
+  breakerCooldownMs: 60_000
+};
+
+// A call that fails with each of `failures` in turn, then answers "ok"
+function flaky(failures: unknown[]) {
+  const call = async () => {
+    call.attempts++;
+    if (call.attempts <= failures.length) throw failures[call.attempts - 1];
+    return 'ok';
+  };
+  call.attempts = 0;
+  return call;
+}
+
+describe('createScheduler', () => {
+  it('retries rate limits and server errors', async () => {
+    const call = flaky([new ProviderHttpError('slow down', 429), new ProviderHttpError('down', 503)]);
+    assert.equal(await createScheduler(OPTIONS).run(call), 'ok');
+    assert.equal(call.attempts, 3);
+  });
+
+  it('gives up after the last retry', async () => {
+    const call = flaky([new ProviderHttpError('down', 500), new ProviderHttpError('down', 500), new ProviderHttpError('down', 500)]);
+    await assert.rejects(createScheduler(OPTIONS).run(call), new ModelCallError('Model call failed with HTTP 500 (gave up after 3 attempts)'));
+    assert.equal(call.attempts, 3);
+  });
+
+  it('does not retry rejected requests', async () => {
+    const call = flaky([new ProviderHttpError('bad image', 400)]);
+    await assert.rejects(createScheduler(OPTIONS).run(call), /was rejected \(HTTP 400\): bad image/);
+    assert.equal(call.attempts, 1);
+  });
+
+  it('waits as long as Retry-After asks, up to the cap', async () => {
+    const call = flaky([new ProviderHttpError('slow down', 429, 50)]);
+    const started = Date.now();
+    assert.equal(await createScheduler(OPTIONS).run(call), 'ok');
+    assert.ok(Date.now() - started >= 45);
+  });
+
+  it('fails at once when Retry-After is beyond the cap', async () => {
+    const call = flaky([new ProviderHttpError('slow down', 429, 120_000)]);
+    await assert.rejects(createScheduler(OPTIONS).run(call), /asked to retry after 120s/);
+    assert.equal(call.attempts, 1);
+  });
+
+  it('times out attempts that do not answer', async () => {
+    const scheduler = createScheduler({ ...OPTIONS, timeoutMs: 20, maxRetries: 0 });
+    let aborted = false;
+    const call = (signal: AbortSignal) => new Promise<string>(() => signal.addEventListener('abort', () => { aborted = true; }));
+    await assert.rejects(scheduler.run(call), /timed out after 0.02s/);
+    assert.ok(aborted);
+  });
+
+  it('opens the circuit after failures in a row', async () => {
+    const scheduler = createScheduler({ ...OPTIONS, maxRetries: 0, breakerThreshold: 2 });
+    for (let i = 0; i < 2; i++) {
+      await assert.rejects(scheduler.run(flaky([new ProviderHttpError('down', 502)])), /HTTP 502/);
+    }
+    const call = flaky([]);
+    await assert.rejects(scheduler.run(call), /Model service unavailable after 2 failed calls in a row/);
+    assert.equal(call.attempts, 0);
+  });
+
+  it('lets a trial call through after the cooldown and closes again', async () => {
+    const scheduler = createScheduler({ ...OPTIONS, maxRetries: 0, breakerThreshold: 1, breakerCooldownMs: 20 });
+    await assert.rejects(scheduler.run(flaky([new ProviderHttpError('down', 502)])));
+    await new Promise(resolve => setTimeout(resolve, 30));
+    assert.equal(await scheduler.run(flaky([])), 'ok');
+    assert.equal(await scheduler.run(flaky([])), 'ok');
+  });
+
+  it('runs at most `concurrency` calls at once', async () => {
+    const scheduler = createScheduler({ ...OPTIONS, concurrency: 2 });
+    let running = 0;
+    let peak = 0;
+    const call = async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return 'ok';
+    };
+    assert.deepEqual(await Promise.all([1, 2, 3, 4, 5].map(() => scheduler.run(call))), ['ok', 'ok', 'ok', 'ok', 'ok']);
+    assert.equal(peak, 2);
+  });
+
+  it('drops cancelled calls that have not started', async () => {
+    const scheduler = createScheduler({ ...OPTIONS, concurrency: 1 });
+    let release!: (value: string) => void;
+    const first = new Promise<string>(resolve => { release = resolve; });
+    const blocking = scheduler.run(() => first);
+
+    const waiting = flaky([]);
+    const controller = new AbortController();
+    const cancelled = scheduler.run(waiting, controller.signal);
+    controller.abort(new Error('client went away'));
+    release('first');
+
+    assert.equal(await blocking, 'first');
+    await assert.rejects(cancelled, /client went away/);
+    assert.equal(waiting.attempts, 0);
+    await assert.rejects(scheduler.run(waiting, controller.signal), /client went away/);
+    assert.equal(waiting.attempts, 0);
+  });
+
+  it('does not retry a call cancelled mid-flight', async () => {
+    const controller = new AbortController();
+    const call = flaky([new ProviderHttpError('down', 503)]);
+    const run = createScheduler(OPTIONS).run(async () => {
+      controller.abort(new Error('client went away'));
+      return call();
+    }, controller.signal);
+    await assert.rejects(run, ProviderHttpError);
+    assert.equal(call.attempts, 1);
+  });
+});
@@ -0,0 +1,217 @@
+import type { AnalyzeImageRequest, AnalyzeImagesRequest, CategorizeRequest, VisionProvider } from "./types";
+
+// Every model call goes through one scheduler per process, so parallel
+// requests, jobs and watch runs share the same limits.
+
+export interface SchedulerOptions {
+  // Calls in flight at once; the rest wait in order
+  concurrency: number;
+  // Per attempt; a slower call is aborted and counts as failed
+  timeoutMs: number;
+  // Extra attempts after a rate limit, timeout, network or server error
+  maxRetries: number;
+  // Wait before the first retry, doubled for every further one
+  baseDelayMs: number;
+  // Failed attempts in a row that open the circuit
+  breakerThreshold: number;
+  // How long an open circuit rejects calls before one trial call is let through
+  breakerCooldownMs: number;
+}
+
+// Longest wait before a retry, including one the server asks for
+const MAX_BACKOFF_MS = 30_000;
+
+export const SCHEDULER_OPTIONS: SchedulerOptions = {
+  concurrency: Number(process.env.MODEL_CONCURRENCY) || 4,
+  timeoutMs: Number(process.env.MODEL_TIMEOUT_MS) || 120_000,
+  // 0 is a valid setting here
+  maxRetries: process.env.MODEL_MAX_RETRIES ? Math.max(0, Number(process.env.MODEL_MAX_RETRIES) || 0) : 3,
+  baseDelayMs: Number(process.env.MODEL_RETRY_DELAY_MS) || 1000,
+  breakerThreshold: Number(process.env.MODEL_BREAKER_THRESHOLD) || 5,
+  breakerCooldownMs: Number(process.env.MODEL_BREAKER_COOLDOWN_MS) || 30_000
+};
+
+/**
+ * Thrown by providers for unsuccessful HTTP responses, so the scheduler can
+ * tell rate limits and outages (worth retrying) from rejected requests.
+ */
+export class ProviderHttpError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+// What callers see once a call has given up; the message says why
+export class ModelCallError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelCallError';
+  }
+}
+
+class TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`timed out after ${timeoutMs / 1000}s`);
+    this.name = 'TimeoutError';
+  }
+}
+
+interface Failure {
+  retryable: boolean;
+  reason: string;
+  retryAfterMs?: number;
+}
+
+// Provider SDK errors (e.g. Gemini's ApiError) carry the HTTP status as `status` too
+function classifyFailure(error: unknown): Failure {
+  if (error instanceof TimeoutError) return { retryable: true, reason: error.message };
+  const status = (error as { status?: unknown } | undefined)?.status;
+  if (status === 429) {
+    return { retryable: true, reason: 'was rate limited (HTTP 429)', retryAfterMs: (error as ProviderHttpError).retryAfterMs };
+  }
+  if (typeof status === 'number' && (status === 408 || status >= 500)) {
+    return { retryable: true, reason: `failed with HTTP ${status}` };
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (typeof status === 'number') return { retryable: false, reason: `was rejected (HTTP ${status}): ${message.slice(0, 200)}` };
+  // fetch() reports connection problems as TypeError
+  if (error instanceof TypeError) return { retryable: true, reason: `failed: ${message}` };
+  return { retryable: false, reason: `failed: ${message.slice(0, 200)}` };
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// The signal lets providers cancel the request; calls that ignore it are
+// still abandoned when the timer fires
+async function withTimeout<T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new TimeoutError(timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([call(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export interface Scheduler {
+  // Runs `call` once a slot is free, retrying transient failures with backoff.
+  // Once `cancel` is aborted, no further attempt is started
+  run<T>(call: (signal: AbortSignal) => Promise<T>, cancel?: AbortSignal): Promise<T>;
+}
+
+/**
+ * Limits concurrent model calls, times each attempt out, retries rate limits
+ * and transient errors with exponential backoff (or the server's Retry-After),
+ * and opens a circuit after `breakerThreshold` transient failures in a row:
+ * while it is open calls fail at once instead of piling onto a struggling
+ * service, and after the cooldown a single trial call decides whether it
+ * closes again. Requests the service rejects (e.g. HTTP 400) are neither
+ * retried nor counted against the circuit.
+ */
+export function createScheduler(options: SchedulerOptions = SCHEDULER_OPTIONS): Scheduler {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+  let failuresInARow = 0;
+  let openUntil = 0;
+  let trialRunning = false;
+
+  async function acquire() {
+    if (active < options.concurrency) {
+      active++;
+      return;
+    }
+    // The releasing call hands its slot over directly
+    await new Promise<void>(resolve => waiting.push(resolve));
+  }
+
+  function release() {
+    const next = waiting.shift();
+    if (next) next(); else active--;
+  }
+
+  // Returns whether this attempt is the trial call of a half-open circuit
+  function admit(): boolean {
+    if (failuresInARow < options.breakerThreshold) return false;
+    if (Date.now() < openUntil || trialRunning) {
+      throw new ModelCallError(
+        `Model service unavailable after ${failuresInARow} failed calls in a row; paused until ${new Date(openUntil).toISOString()}`
+      );
+    }
+    trialRunning = true;
+    return true;
+  }
+
+  async function attempt<T>(call: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const trial = admit();
+    try {
+      const result = await withTimeout(call, options.timeoutMs);
+      failuresInARow = 0;
+      return result;
+    } catch (error) {
+      if (classifyFailure(error).retryable) {
+        failuresInARow++;
+        if (failuresInARow >= options.breakerThreshold) {
+          if (Date.now() >= openUntil) console.error(`Model circuit open for ${options.breakerCooldownMs}ms after ${failuresInARow} failed calls in a row`);
+          openUntil = Date.now() + options.breakerCooldownMs;
+        }
+      }
+      throw error;
+    } finally {
+      if (trial) trialRunning = false;
+    }
+  }
+
+  return {
+    async run(call, cancel) {
+      for (let retry = 0; ; retry++) {
+        let delay: number;
+        cancel?.throwIfAborted();
+        await acquire();
+        try {
+          // The caller may have gone away while this call was waiting for a slot
+          cancel?.throwIfAborted();
+          return await attempt(call);
+        } catch (error) {
+          if (error instanceof ModelCallError || cancel?.aborted) throw error;
+          const failure = classifyFailure(error);
+          if (!failure.retryable || retry >= options.maxRetries) {
+            const attempts = retry + 1;
+            throw new ModelCallError(`Model call ${failure.reason}${attempts > 1 ? ` (gave up after ${attempts} attempts)` : ''}`);
+          }
+          // Waiting longer would stall the item far past the call timeout
+          if (failure.retryAfterMs !== undefined && failure.retryAfterMs > MAX_BACKOFF_MS) {
+            throw new ModelCallError(`Model call ${failure.reason}; the server asked to retry after ${Math.round(failure.retryAfterMs / 1000)}s`);
+          }
+          // Jitter keeps calls that failed together from retrying together
+          delay = failure.retryAfterMs ?? Math.min(MAX_BACKOFF_MS, options.baseDelayMs * 2 ** retry) * (0.5 + Math.random() / 2);
+          console.error(`Model call ${failure.reason}; retry ${retry + 1} of ${options.maxRetries} in ${Math.round(delay)}ms`);
+        } finally {
+          release();
+        }
+        // The slot is given up while waiting so other calls can proceed
+        await sleep(delay);
+      }
+    }
+  };
+}
+
+// A provider whose calls all go through `scheduler`
+export function scheduleProvider(provider: VisionProvider, scheduler: Scheduler): VisionProvider {
+  return {
+    id: provider.id,
+    model: provider.model,
+    analyzeImage: (request: AnalyzeImageRequest) => scheduler.run(signal => provider.analyzeImage({ ...request, signal }), request.signal),
+    analyzeImages: (request: AnalyzeImagesRequest) => scheduler.run(signal => provider.analyzeImages({ ...request, signal }), request.signal),
+    categorize: (request: CategorizeRequest) => scheduler.run(signal => provider.categorize({ ...request, signal }), request.signal)
+  };
+}
@@ -0,0 +1,188 @@
+import { createHash } from "crypto";
+import type { ModelCategorization } from "../schemas";
+import type { ContentType } from "../types";
+import type { AnalyzeImageRequest, AnalyzeImagesRequest, CategorizeRequest, ModelTokenUsage, ProviderResponse, VisionProvider } from "./types";
+
+interface StubLabel {
+  content: string;
+  main_theme: string;
+  extracted_text: string;
+  keywords: string[];
+  // Topics besides the main theme
+  tags: string[];
+  content_type: ContentType | 'other';
+  // Fields of the content type, see extractors.ts
+  details?: Record<string, unknown>;
+  // Answer to a transcription request
+  transcript?: { language: string; text: string };
+  // Reported as highly sensitive, with one region across the middle of the image
+  sensitive?: boolean;
+}
+
+// Matches the GitHub token format, so the local checks flag it, without
+// looking like a real token to secret scanners
+const FAKE_GITHUB_TOKEN = `ghp_${'x'.repeat(36)}`;
+
+const STUB_LABELS: StubLabel[] = [
+  {
+    content: 'terminal_credentials', main_theme: 'coding', extracted_text: `export GITHUB_TOKEN=${FAKE_GITHUB_TOKEN}`, keywords: ['secret', 'token', 'credential', 'password'], tags: ['security', 'terminal'],
+    content_type: 'terminal',
+    details: { shell: 'bash', commands: [`export GITHUB_TOKEN=${FAKE_GITHUB_TOKEN}`, 'gh auth status'] },
+    transcript: { language: 'bash', text: `$ export GITHUB_TOKEN=${FAKE_GITHUB_TOKEN}\n$ gh auth status\ngithub.com\n  ✓ Logged in to github.com as octocat (GITHUB_TOKEN)` },
+    sensitive: true
+  },
+  {
+    content: 'react_error', main_theme: 'coding', extracted_text: 'TypeError: Cannot read properties of undefined', keywords: ['error', 'exception', 'stack', 'bug'], tags: ['error', 'javascript'],
+    content_type: 'error',
+    details: { language: 'javascript', error_class: 'TypeError', message: "Cannot read properties of undefined (reading 'map')", stack_frames: ['at TodoList (TodoList.jsx:14:23)', 'at renderWithHooks (react-dom.development.js:16305:18)'] },
+    transcript: { language: 'log', text: "TypeError: Cannot read properties of undefined (reading 'map')\n    at TodoList (TodoList.jsx:14:23)\n    at renderWithHooks (react-dom.development.js:16305:18)" }
+  },
+  {
+    content: 'api_response', main_theme: 'coding', extracted_text: '{"status": 200, "data": [...]}', keywords: ['api', 'json', 'response', 'terminal', 'code'], tags: ['api', 'json'],
+    content_type: 'terminal',
+    details: { shell: 'bash', commands: ['curl -s https://api.example.com/items'] },
+    transcript: { language: 'bash', text: '$ curl -s https://api.example.com/items\n{"status": 200, "data": [{"id": 1, "name": "First"}]}' }
+  },
+  {
+    content: 'payslip_document', main_theme: 'finance', extracted_text: 'Net Pay 4,250.00 Pay Period 01/03-31/03', keywords: ['payslip', 'salary', 'pay'], tags: ['payroll', 'document'],
+    content_type: 'receipt',
+    details: { merchant: 'Acme Ltd', date: '2025-03-31', amount: 4250, currency: 'EUR' }
+  },
+  {
+    content: 'receipt', main_theme: 'finance', extracted_text: 'TOTAL 23.40 VISA ****1234 Thank you', keywords: ['receipt', 'invoice', 'order', 'bill'], tags: ['shopping', 'payment'],
+    content_type: 'receipt',
+    details: { merchant: 'Corner Market', date: '2025-03-14', amount: 23.4, currency: 'USD' }
+  },
+  {
+    content: 'chat_conversation', main_theme: 'social', extracted_text: 'See you tomorrow at 10?', keywords: ['chat', 'whatsapp', 'slack', 'message'], tags: ['messaging'],
+    content_type: 'chat',
+    details: { platform: 'whatsapp', participants: ['Alex', 'Sam'] }
+  },
+  {
+    content: 'website_page', main_theme: 'business', extracted_text: 'Pricing - Start your free trial', keywords: ['web', 'site', 'page', 'browser'], tags: ['web', 'marketing'],
+    content_type: 'web_page',
+    details: { url: 'https://www.example.com/pricing', domain: 'example.com', title: 'Pricing' }
+  },
+  { content: 'ui_design', main_theme: 'design', extracted_text: 'Sign up - Email - Password', keywords: ['design', 'figma', 'mockup', 'ui'], tags: ['ui', 'forms'], content_type: 'other' },
+  { content: 'photo', main_theme: 'personal', extracted_text: '', keywords: ['img', 'photo', 'dsc', 'pxl'], tags: ['photo'], content_type: 'other' }
+];
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function pickLabel(fileName: string | undefined, seed: string): StubLabel {
+  const name = (fileName || '').toLowerCase();
+  const byName = STUB_LABELS.find(label => label.keywords.some(keyword => name.includes(keyword)));
+  if (byName) return byName;
+  // Only file names can make the stub report secrets
+  const labels = STUB_LABELS.filter(label => !label.sensitive);
+  return labels[digest(seed)[0] % labels.length];
+}
+
+function answer(seed: string, fileName: string | undefined) {
+  const label = pickLabel(fileName, seed);
+  const hash = digest(seed);
+  return {
+    content: label.content,
+    extracted_text: label.extracted_text,
+    main_theme: label.main_theme,
+    tags: [label.main_theme, ...label.tags],
+    content_type: label.content_type,
+    confidence: 60 + (hash[1] % 36),
+    sensitivity: label.sensitive ? 'high' : 'none',
+    sensitive_regions: label.sensitive ? [{ label: 'access_token', x: 0.1, y: 0.4, width: 0.8, height: 0.15 }] : [],
+    details: label.details ?? {}
+  };
+}
+
+// Rough estimate, so token reports can be tried without a model: about four
+// characters per token and a flat 258 tokens per image, as Gemini counts them
+function estimateUsage(prompt: string, imageCount: number, text: string): ModelTokenUsage {
+  return {
+    inputTokens: Math.ceil(prompt.length / 4) + imageCount * 258,
+    outputTokens: Math.ceil(text.length / 4)
+  };
+}
+
+// Category names listed under "FIXED CATEGORIES" when a profile restricts them
+function fixedCategoryNames(prompt: string): string[] | undefined {
+  const section = prompt.split('FIXED CATEGORIES:')[1];
+  if (!section) return undefined;
+  return [...section.matchAll(/^- ([^:\n]+):/gm)].map(match => match[1]);
+}
+
+// Category names listed under "EXISTING CATEGORIES" from earlier runs
+function existingCategoryNames(prompt: string): string[] {
+  const section = prompt.split('EXISTING CATEGORIES:')[1];
+  if (!section) return [];
+  return section.split('\n\n')[0].split('\n')
+    .filter(line => line.startsWith('- '))
+    .map(line => line.slice(2).split(': ')[0]);
+}
+
+/**
+ * Deterministic offline provider: the same image always gets the same answer
+ * and no network call is made. Used for CI and local development without a
+ * model; the labels are plausible but not derived from the pixels.
+ */
+export function createStubProvider(): VisionProvider {
+  return {
+    id: 'stub',
+    model: 'stub',
+
+    async analyzeImage({ prompt, kind, image, fileName }: AnalyzeImageRequest): Promise<ProviderResponse> {
+      // Transcription requests get the text of the label the image was given
+      const seed = image?.data ?? prompt;
+      const text = JSON.stringify(
+        kind === 'transcript' ? pickLabel(fileName, seed).transcript ?? { language: '', text: '' } : answer(seed, fileName)
+      );
+      return { text, usage: estimateUsage(prompt, image ? 1 : 0, text) };
+    },
+
+    async analyzeImages({ prompt, images }: AnalyzeImagesRequest): Promise<ProviderResponse> {
+      const text = JSON.stringify({
+        images: images.map(({ image, fileName }, position) => ({ image: position, ...answer(image.data, fileName) }))
+      });
+      return { text, usage: estimateUsage(prompt, images.length, text) };
+    },
+
+    async categorize({ prompt, analyses }: CategorizeRequest): Promise<ProviderResponse> {
+      const fixed = fixedCategoryNames(prompt);
+      const existing = existingCategoryNames(prompt);
+      const categories: ModelCategorization['categories'] = [];
+      const findOrAdd = (name: string, description: string) => {
+        let category = categories.find(c => c.name === name);
+        if (!category) {
+          category = { name, description, images: [] };
+          categories.push(category);
+        }
+        return category;
+      };
+      // Without fixed categories, files are nested as <theme>_files/<content>,
+      // unless the last level of an existing category matches the content or theme
+      analyses.forEach((analysis, i) => {
+        if (fixed) {
+          const name = fixed.find(candidate => candidate === analysis.main_theme || candidate.startsWith(analysis.content.split('_')[0])) ?? 'uncategorized';
+          findOrAdd(name, `Screenshots related to ${analysis.main_theme}`).images.push(i);
+          return;
+        }
+        const reused = existing.find(candidate => {
+          const leaf = candidate.split('/').pop()!;
+          return leaf === analysis.main_theme || leaf.startsWith(analysis.content.split('_')[0]);
+        });
+        if (reused) {
+          findOrAdd(reused, `${analysis.content.replace(/_/g, ' ')} screenshots`).images.push(i);
+          return;
+        }
+        const parent = `${analysis.main_theme}_files`;
+        findOrAdd(parent, `Screenshots related to ${analysis.main_theme}`);
+        const category = findOrAdd(`${parent}/${analysis.content}`, `${analysis.content.replace(/_/g, ' ')} screenshots`);
+        if (existing.length > 0) category.justification = `No existing category is about ${analysis.content.replace(/_/g, ' ')}`;
+        category.images.push(i);
+      });
+      const text = JSON.stringify({ categories });
+      return { text, usage: estimateUsage(prompt, 0, text) };
+    }
+  };
+}
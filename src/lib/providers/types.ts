@@ -0,0 +1,66 @@
+import type { JsonSchema } from "../schemas";
+import type { ImageAnalysis } from "../types";
+
+export type ProviderId = 'gemini' | 'openai' | 'stub';
+
+export interface ImageInput {
+  // Raw base64 payload, without the `data:...;base64,` prefix
+  data: string;
+  mimeType: string;
+}
+
+// What a single-image request asks for: the phase-1 analysis or a verbatim transcript
+export type AnalyzeImageKind = 'analysis' | 'transcript';
+
+export interface AnalyzeImageRequest {
+  prompt: string;
+  // Providers that only talk to a model can ignore it; the stub answers by it
+  kind: AnalyzeImageKind;
+  // Omitted when there is nothing to look at, e.g. a PDF that could only be read as text
+  image?: ImageInput;
+  fileName?: string;
+  // When set, providers with a structured-output mode constrain the reply to it
+  responseSchema?: JsonSchema;
+  // Callers abort it to cancel a call that has not been sent yet; providers
+  // get the scheduler's own signal, which also fires when the call times out
+  signal?: AbortSignal;
+}
+
+export interface AnalyzeImagesRequest {
+  prompt: string;
+  // Sent in order, each labelled "Image <position>" so answers can be mapped back
+  images: Array<{ image: ImageInput; fileName?: string }>;
+  responseSchema?: JsonSchema;
+  signal?: AbortSignal;
+}
+
+export interface CategorizeRequest {
+  prompt: string;
+  analyses: ImageAnalysis[];
+  responseSchema?: JsonSchema;
+  signal?: AbortSignal;
+}
+
+// As reported by the model server; providers that report nothing leave it out
+export interface ModelTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ProviderResponse {
+  text: string;
+  usage?: ModelTokenUsage;
+}
+
+/**
+ * A vision model backend. Providers only talk to the model and hand back its
+ * raw text; prompt building and response parsing stay in the pipeline.
+ */
+export interface VisionProvider {
+  readonly id: ProviderId;
+  readonly model: string;
+  analyzeImage(request: AnalyzeImageRequest): Promise<ProviderResponse>;
+  // Several images in one request, answered together
+  analyzeImages(request: AnalyzeImagesRequest): Promise<ProviderResponse>;
+  categorize(request: CategorizeRequest): Promise<ProviderResponse>;
+}
@@ -0,0 +1,59 @@
+import sharp from 'sharp';
+import type { RedactionMode } from "./export";
+import { isPdf } from "./pdf";
+import { WHOLE_IMAGE } from "./sensitivity";
+import type { SensitiveRegion } from "./types";
+
+// Blurring or blacking out the sensitive regions of an image before it is
+// exported. The model reports regions as fractions of the upright image.
+
+// Formats sharp can write back, so a redacted file keeps its extension
+const WRITABLE_FORMATS = new Set(['jpeg', 'png', 'webp', 'gif', 'tiff']);
+
+// Model boxes are rough; each side is widened by this fraction of the image
+const REGION_PADDING = 0.01;
+
+function toPixels(region: SensitiveRegion, imageWidth: number, imageHeight: number) {
+  const left = Math.max(0, Math.floor((region.x - REGION_PADDING) * imageWidth));
+  const top = Math.max(0, Math.floor((region.y - REGION_PADDING) * imageHeight));
+  const right = Math.min(imageWidth, Math.ceil((region.x + region.width + REGION_PADDING) * imageWidth));
+  const bottom = Math.min(imageHeight, Math.ceil((region.y + region.height + REGION_PADDING) * imageHeight));
+  return { left, top, width: Math.max(1, right - left), height: Math.max(1, bottom - top) };
+}
+
+/**
+ * Returns a copy of the image with every region blurred or filled black, in
+ * the original format and without its metadata. Returns null when the image
+ * cannot be decoded or written back (HEIC, for example).
+ */
+export async function redactImage(buffer: Buffer, regions: SensitiveRegion[], mode: Exclude<RedactionMode, 'off'>): Promise<Buffer | null> {
+  try {
+    const { format } = await sharp(buffer).metadata();
+    if (!format || !WRITABLE_FORMATS.has(format)) return null;
+
+    // Regions refer to the image as displayed, so EXIF rotation is applied first
+    const upright = await sharp(buffer).rotate().toBuffer({ resolveWithObject: true });
+    const boxes = (regions.length > 0 ? regions : [WHOLE_IMAGE])
+      .map(region => toPixels(region, upright.info.width, upright.info.height));
+
+    const overlays = await Promise.all(boxes.map(async box => ({
+      input: mode === 'black'
+        ? { create: { width: box.width, height: box.height, channels: 3 as const, background: '#000000' } }
+        // Strong enough that text of about the box's height cannot be read back
+        : await sharp(upright.data).extract(box).blur(Math.max(10, Math.min(box.width, box.height) / 3)).toBuffer(),
+      left: box.left,
+      top: box.top
+    })));
+
+    return await sharp(upright.data).composite(overlays).toFormat(format as keyof sharp.FormatEnum).toBuffer();
+  } catch (error) {
+    console.error('Could not redact image:', error);
+    return null;
+  }
+}
+
+// PDFs cannot be redacted here; callers leave them out of the export
+export async function redactFile(file: File, regions: SensitiveRegion[], mode: Exclude<RedactionMode, 'off'>): Promise<Buffer | null> {
+  if (isPdf(file)) return null;
+  return redactImage(Buffer.from(await file.arrayBuffer()), regions, mode);
+}
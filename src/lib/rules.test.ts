@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkRules, compileRules, hasNestedQuantifier, matchRule } from "./rules";
+import type { CategoryRule, ImageAnalysis } from "./types";
+
+const ANALYSIS: ImageAnalysis = {
+  index: 0,
+  content: 'payslip_document',
+  extracted_text: 'Net Pay 4,250.00',
+  main_theme: 'finance',
+  tags: ['finance'],
+  confidence: 90,
+  fileName: 'Payslip March.png',
+  fileType: 'image',
+  parseStatus: 'parsed',
+  status: 'success',
+  cached: false
+};
+
+function rule(pattern: string, category: string, overrides: Partial<CategoryRule> = {}): CategoryRule {
+  return { field: 'extracted_text', pattern, category, stage: 'before', ...overrides };
+}
+
+describe('hasNestedQuantifier', () => {
+  it('finds repeated groups that repeat inside', () => {
+    for (const pattern of ['(a+)+', '(\\w*\\s?)*', '((ab)*c)+', '(x|y+){2,}']) {
+      assert.equal(hasNestedQuantifier(pattern), true, pattern);
+    }
+  });
+
+  it('accepts repetition that does not nest', () => {
+    for (const pattern of ['net pay', 'a+b*', '(ab)+', '(a+)b', '[(+*)]+', '\\(a+\\)+', '(a{2})+']) {
+      assert.equal(hasNestedQuantifier(pattern), false, pattern);
+    }
+  });
+});
+
+describe('checkRules', () => {
+  it('reports invalid, long and nested patterns by position', () => {
+    const problems = checkRules([rule('ok', 'a'), rule('(unclosed', 'b'), rule('x'.repeat(201), 'c'), rule('(a+)+$', 'd')]);
+    assert.equal(problems.length, 3);
+    assert.match(problems[0], /^rules\[1\]\.pattern is not a valid regular expression/);
+    assert.equal(problems[1], 'rules[2].pattern is longer than 200 characters');
+    assert.match(problems[2], /^rules\[3\]\.pattern repeats a group/);
+  });
+});
+
+describe('matchRule', () => {
+  it('returns the first matching rule of the stage, case-insensitively by default', () => {
+    const rules = compileRules([
+      rule('invoice', 'finance/invoices'),
+      rule('payslip', 'finance/payslips', { field: 'fileName', stage: 'after' }),
+      rule('NET PAY', 'finance/payslips'),
+      rule('pay', 'finance/other')
+    ]);
+    assert.equal(matchRule(rules, 'before', ANALYSIS), 'finance/payslips');
+    assert.equal(matchRule(rules, 'after', ANALYSIS), 'finance/payslips');
+    assert.equal(matchRule(compileRules([rule('NET PAY', 'x', { flags: '' })]), 'before', ANALYSIS), undefined);
+  });
+
+  it('gives the same answer every time even with the g flag', () => {
+    const rules = compileRules([rule('net', 'finance', { flags: 'gi' })]);
+    assert.equal(matchRule(rules, 'before', ANALYSIS), 'finance');
+    assert.equal(matchRule(rules, 'before', ANALYSIS), 'finance');
+  });
+
+  it('skips rules that fail the checks', () => {
+    const rules = compileRules([rule('(\\w+\\s?)+$', 'slow'), rule('net', 'finance')]);
+    assert.equal(rules.length, 1);
+    assert.equal(matchRule(rules, 'before', ANALYSIS), 'finance');
+  });
+});
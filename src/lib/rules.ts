@@ -0,0 +1,102 @@
+import type { CategoryRule, ImageAnalysis } from "./types";
+
+// Profile patterns run on the server thread for every analysis, so they are
+// kept short and free of the nested repetition that can backtrack for ever
+const MAX_PATTERN_LENGTH = 200;
+
+export interface CompiledRule {
+  rule: CategoryRule;
+  regex: RegExp;
+}
+
+// Compiled rules are reused, so the stateful `g` and `y` flags are dropped
+export function compileRule(rule: CategoryRule): RegExp {
+  return new RegExp(rule.pattern, (rule.flags ?? 'i').replace(/[gy]/g, ''));
+}
+
+// `*`, `+` or `{n,}` at `index`
+function isUnboundedQuantifier(pattern: string, index: number) {
+  return pattern[index] === '*' || pattern[index] === '+' || /^\{\d*,\}/.test(pattern.slice(index));
+}
+
+/**
+ * Whether a repeated group contains repetition itself, e.g. (a+)+ or
+ * (\w*\s?)*. A heuristic: it looks at group structure only.
+ */
+export function hasNestedQuantifier(pattern: string) {
+  // Per open group: whether something inside it repeats without bound
+  const groups: boolean[] = [];
+  const markParent = () => {
+    if (groups.length > 0) groups[groups.length - 1] = true;
+  };
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Quantifier characters inside a class are literals
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const repeatsInside = groups.pop() ?? false;
+      const repeated = isUnboundedQuantifier(pattern, i + 1);
+      if (repeatsInside && repeated) return true;
+      if (repeatsInside || repeated) markParent();
+    } else if (isUnboundedQuantifier(pattern, i)) {
+      markParent();
+    }
+  }
+  return false;
+}
+
+// Problem with one rule's pattern, or undefined when it can be run
+function checkPattern(rule: CategoryRule): string | undefined {
+  if (rule.pattern.length > MAX_PATTERN_LENGTH) return `is longer than ${MAX_PATTERN_LENGTH} characters`;
+  try {
+    compileRule(rule);
+  } catch (error) {
+    return `is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  if (hasNestedQuantifier(rule.pattern)) return 'repeats a group that repeats itself (e.g. (a+)+), which can take forever to match';
+  return undefined;
+}
+
+/**
+ * Compiles a profile's rules once per categorization. Rules that fail the
+ * checks (e.g. saved before they existed) are skipped and logged.
+ */
+export function compileRules(rules: CategoryRule[]): CompiledRule[] {
+  return rules.flatMap(rule => {
+    const problem = checkPattern(rule);
+    if (problem) {
+      console.error(`Skipping rule for "${rule.category}": pattern ${problem}`);
+      return [];
+    }
+    return [{ rule, regex: compileRule(rule) }];
+  });
+}
+
+/**
+ * Returns the category of the first rule of `stage` matching `analysis`,
+ * or undefined when none matches. Rules are tried in profile order.
+ */
+export function matchRule(rules: CompiledRule[], stage: CategoryRule['stage'], analysis: ImageAnalysis): string | undefined {
+  for (const { rule, regex } of rules) {
+    if (rule.stage !== stage) continue;
+    if (regex.test(String(analysis[rule.field] ?? ''))) {
+      return rule.category;
+    }
+  }
+  return undefined;
+}
+
+// Problems with a rule list, e.g. invalid regular expressions; empty when valid
+export function checkRules(rules: CategoryRule[]): string[] {
+  return rules.flatMap((rule, i) => {
+    const problem = checkPattern(rule);
+    return problem ? [`rules[${i}].pattern ${problem}`] : [];
+  });
+}
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ANALYSIS_SCHEMA, type JsonSchema, parseJsonResponse, requestStructured, validate } from "./schemas";
+
+const SAMPLE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', enum: ['a', 'b'] },
+    count: { type: 'integer', minimum: 0, maximum: 10 },
+    items: { type: 'array', items: { type: 'number' } }
+  },
+  required: ['name', 'count']
+};
+
+describe('validate', () => {
+  it('accepts a matching value and ignores unknown keys', () => {
+    assert.deepEqual(validate(SAMPLE_SCHEMA, { name: 'a', count: 3, items: [1.5], extra: true }), []);
+  });
+
+  it('reports every problem with its path', () => {
+    assert.deepEqual(validate(SAMPLE_SCHEMA, { name: 'c', count: 2.5, items: [1, 'x'] }), [
+      '$.name must be one of a, b',
+      '$.count must be an integer',
+      '$.items[1] must be a number'
+    ]);
+  });
+
+  it('reports missing required fields and out-of-range numbers', () => {
+    assert.deepEqual(validate(SAMPLE_SCHEMA, { count: 11 }), ['$.name is required', '$.count must be <= 10']);
+  });
+
+  it('rejects null and arrays where an object is expected', () => {
+    assert.deepEqual(validate(SAMPLE_SCHEMA, null), ['$ must be an object']);
+    assert.deepEqual(validate(SAMPLE_SCHEMA, []), ['$ must be an object']);
+  });
+
+  it('requires every phase-1 field', () => {
+    const errors = validate(ANALYSIS_SCHEMA, { content: 'photo' });
+    assert.ok(errors.includes('$.content_type is required'));
+    assert.ok(errors.includes('$.details is required'));
+  });
+});
+
+describe('parseJsonResponse', () => {
+  it('tolerates a markdown code fence', () => {
+    assert.deepEqual(parseJsonResponse('```json\n{"a": 1}\n```'), { ok: true, value: { a: 1 } });
+  });
+
+  it('reports text that is not JSON', () => {
+    assert.equal(parseJsonResponse('Sure! Here it is').ok, false);
+  });
+});
+
+describe('requestStructured', () => {
+  it('returns a valid first answer without retrying', async () => {
+    const prompts: string[] = [];
+    const result = await requestStructured(async prompt => {
+      prompts.push(prompt);
+      return { text: '{"name": "a", "count": 1}', usage: { inputTokens: 10, outputTokens: 5 } };
+    }, 'PROMPT', SAMPLE_SCHEMA);
+    assert.equal(result.ok, true);
+    assert.equal(result.ok && result.parseStatus, 'parsed');
+    assert.deepEqual(result.usage, { requests: 1, inputTokens: 10, outputTokens: 5 });
+    assert.deepEqual(prompts, ['PROMPT']);
+  });
+
+  it('retries once with the errors and sums the usage', async () => {
+    const prompts: string[] = [];
+    const answers = ['{"name": "z", "count": 1}', '{"name": "b", "count": 1}'];
+    const result = await requestStructured(async prompt => {
+      prompts.push(prompt);
+      return { text: answers[prompts.length - 1], usage: { inputTokens: 10, outputTokens: 5 } };
+    }, 'PROMPT', SAMPLE_SCHEMA);
+    assert.deepEqual(result, { ok: true, value: { name: 'b', count: 1 }, parseStatus: 'repaired', usage: { requests: 2, inputTokens: 20, outputTokens: 10 } });
+    assert.ok(prompts[1].startsWith('PROMPT'));
+    assert.ok(prompts[1].includes('- $.name must be one of a, b'));
+  });
+
+  it('gives up after the repair attempt', async () => {
+    let calls = 0;
+    const result = await requestStructured(async () => {
+      calls++;
+      return { text: 'not json' };
+    }, 'PROMPT', SAMPLE_SCHEMA);
+    assert.equal(calls, 2);
+    assert.equal(result.ok, false);
+    assert.match(result.ok ? '' : result.errors[0], /not valid JSON/);
+  });
+
+  it('runs the semantic check after the schema', async () => {
+    let calls = 0;
+    const result = await requestStructured<{ name: string; count: number }>(
+      async () => ({ text: `{"name": "a", "count": ${calls++}}` }),
+      'PROMPT',
+      SAMPLE_SCHEMA,
+      value => value.count === 0 ? ['count must not be 0'] : []
+    );
+    assert.equal(result.ok && result.parseStatus, 'repaired');
+  });
+});
@@ -0,0 +1,206 @@
+// Runtime schemas for model output. They are plain JSON Schema so the same
+// object can be handed to a provider's structured-output mode and checked
+// here with `validate`, which understands the subset used below.
+
+import { CONTENT_TYPES, DETAILS_SCHEMA } from "./extractors";
+import type { ContentType, SensitiveRegion, SensitivityLevel } from "./types";
+import type { TokenCounts } from "./usage";
+
+export type JsonSchema =
+  | { type: 'string'; enum?: string[]; description?: string }
+  | { type: 'number' | 'integer'; minimum?: number; maximum?: number; description?: string }
+  | { type: 'boolean'; description?: string }
+  | { type: 'array'; items: JsonSchema; description?: string }
+  | { type: 'object'; properties: Record<string, JsonSchema>; required?: string[]; description?: string };
+
+export interface ModelAnalysis {
+  content: string;
+  extracted_text: string;
+  main_theme: string;
+  tags: string[];
+  content_type: ContentType | 'other';
+  confidence: number;
+  sensitivity: SensitivityLevel;
+  sensitive_regions: SensitiveRegion[];
+  // Fields of the content type, see extractors.ts; empty for "other"
+  details: Record<string, unknown>;
+}
+
+export interface ModelBatchAnalysis {
+  // `image` is the position of the image in the request
+  images: Array<ModelAnalysis & { image: number }>;
+}
+
+export interface ModelCategorization {
+  categories: Array<{ name: string; description: string; images: number[]; justification?: string }>;
+}
+
+// Fractions of the image width and height, from the top-left corner
+export const SENSITIVE_REGION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    label: { type: 'string' },
+    x: { type: 'number', minimum: 0, maximum: 1 },
+    y: { type: 'number', minimum: 0, maximum: 1 },
+    width: { type: 'number', minimum: 0, maximum: 1 },
+    height: { type: 'number', minimum: 0, maximum: 1 }
+  },
+  required: ['label', 'x', 'y', 'width', 'height']
+};
+
+const ANALYSIS_PROPERTIES: Record<string, JsonSchema> = {
+  content: { type: 'string' },
+  extracted_text: { type: 'string' },
+  main_theme: { type: 'string' },
+  tags: { type: 'array', items: { type: 'string' } },
+  content_type: { type: 'string', enum: [...CONTENT_TYPES, 'other'] },
+  confidence: { type: 'number', minimum: 0, maximum: 100 },
+  sensitivity: { type: 'string', enum: ['none', 'low', 'high'] },
+  sensitive_regions: { type: 'array', items: SENSITIVE_REGION_SCHEMA },
+  details: DETAILS_SCHEMA
+};
+
+export const ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: ANALYSIS_PROPERTIES,
+  required: Object.keys(ANALYSIS_PROPERTIES)
+};
+
+export const BATCH_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    images: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { image: { type: 'integer', minimum: 0 }, ...ANALYSIS_PROPERTIES },
+        required: ['image', ...Object.keys(ANALYSIS_PROPERTIES)]
+      }
+    }
+  },
+  required: ['images']
+};
+
+export const CATEGORIZATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    categories: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          // Parents are categories of their own, so each level has a description
+          name: { type: 'string', description: 'Category path; "/" separates nested levels, e.g. finance/payslips' },
+          description: { type: 'string' },
+          images: { type: 'array', items: { type: 'integer', minimum: 0 } },
+          justification: { type: 'string', description: 'Only for a category that is not in the existing list: why none of those fit' }
+        },
+        required: ['name', 'description', 'images']
+      }
+    }
+  },
+  required: ['categories']
+};
+
+/**
+ * Returns a list of human-readable problems with `value`, empty when it
+ * matches. The messages are fed back to the model on a repair attempt.
+ */
+export function validate(schema: JsonSchema, value: unknown, path = '$'): string[] {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path} must be a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path} must be one of ${schema.enum.join(', ')}`];
+      return [];
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || Number.isNaN(value)) return [`${path} must be a number`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) return [`${path} must be an integer`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path} must be >= ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path} must be <= ${schema.maximum}`];
+      return [];
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+    case 'array':
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      return value.flatMap((item, i) => validate(schema.items, item, `${path}[${i}]`));
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path} must be an object`];
+      const record = value as Record<string, unknown>;
+      const missing = (schema.required || [])
+        .filter(key => record[key] === undefined)
+        .map(key => `${path}.${key} is required`);
+      const invalid = Object.entries(schema.properties)
+        .filter(([key]) => record[key] !== undefined)
+        .flatMap(([key, propertySchema]) => validate(propertySchema, record[key], `${path}.${key}`));
+      return [...missing, ...invalid];
+    }
+  }
+}
+
+/**
+ * Parses a model response as JSON. A single surrounding markdown code fence
+ * is tolerated because some models add one even in JSON mode.
+ */
+export function parseJsonResponse(text: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/, '$1').trim();
+  try {
+    return { ok: true, value: JSON.parse(unfenced) };
+  } catch (error) {
+    return { ok: false, error: `Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+function buildRepairPrompt(prompt: string, previousResponse: string, errors: string[]) {
+  return `${prompt}
+
+Your previous response could not be used:
+"""
+${previousResponse.substring(0, 2000)}
+"""
+
+It had these problems:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Return ONLY a corrected JSON object that fixes every problem above.`;
+}
+
+// `usage` is summed over the first request and the repair retry
+export type StructuredResult<T> =
+  | { ok: true; value: T; parseStatus: 'parsed' | 'repaired'; usage: TokenCounts }
+  | { ok: false; errors: string[]; usage: TokenCounts };
+
+/**
+ * Calls the model, validates its answer against `schema` (plus any semantic
+ * `check`), and retries once with the validation errors if it does not
+ * match. Errors thrown by `call` itself are not retried here.
+ */
+export async function requestStructured<T>(
+  call: (prompt: string) => Promise<{ text: string; usage?: { inputTokens: number; outputTokens: number } }>,
+  prompt: string,
+  schema: JsonSchema,
+  check: (value: T) => string[] = () => []
+): Promise<StructuredResult<T>> {
+  let currentPrompt = prompt;
+  let errors: string[] = [];
+  const usage: TokenCounts = { requests: 0, inputTokens: 0, outputTokens: 0 };
+
+  for (const attempt of ['parsed', 'repaired'] as const) {
+    const { text, usage: callUsage } = await call(currentPrompt);
+    usage.requests++;
+    usage.inputTokens += callUsage?.inputTokens ?? 0;
+    usage.outputTokens += callUsage?.outputTokens ?? 0;
+    const parsed = parseJsonResponse(text);
+    errors = parsed.ok ? validate(schema, parsed.value) : [parsed.error];
+    if (parsed.ok && errors.length === 0) {
+      errors = check(parsed.value as T);
+    }
+    if (parsed.ok && errors.length === 0) {
+      return { ok: true, value: parsed.value as T, parseStatus: attempt, usage };
+    }
+    currentPrompt = buildRepairPrompt(prompt, text, errors);
+  }
+
+  return { ok: false, errors, usage };
+}
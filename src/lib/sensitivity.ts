@@ -0,0 +1,196 @@
+import type { RedactionLevel, SensitiveFinding, SensitiveRegion, SensitivityLevel, SensitivityReport } from "./types";
+
+// Sensitive-content checks. The extracted text is scanned locally for known
+// secret formats and random-looking tokens; the model's own judgement and the
+// regions it points at are merged in. Nothing here may import Node-only
+// modules: the export code uses it in the browser.
+
+interface SecretPattern {
+  kind: string;
+  pattern: RegExp;
+  level: Exclude<SensitivityLevel, 'none'>;
+  // Rejects lookalikes, e.g. digit runs that fail the card checksum
+  check?: (match: string) => boolean;
+}
+
+interface SecretMatch {
+  kind: string;
+  level: Exclude<SensitivityLevel, 'none'>;
+  start: number;
+  end: number;
+}
+
+const SECRET_PATTERNS: SecretPattern[] = [
+  { kind: 'private_key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----/g, level: 'high' },
+  { kind: 'aws_access_key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g, level: 'high' },
+  { kind: 'github_token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{30,}|github_pat_[A-Za-z0-9_]{30,})/g, level: 'high' },
+  { kind: 'slack_token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g, level: 'high' },
+  { kind: 'stripe_key', pattern: /\b[sr]k_(?:live|test)_[A-Za-z0-9]{16,}/g, level: 'high' },
+  { kind: 'google_api_key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g, level: 'high' },
+  { kind: 'api_key', pattern: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}/g, level: 'high' },
+  { kind: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g, level: 'high' },
+  { kind: 'bearer_token', pattern: /\bBearer\s+[A-Za-z0-9._~+/-]{16,}=*/g, level: 'high' },
+  { kind: 'password', pattern: /\b(?:password|passwd|pwd|passcode|secret)\s*[:=]\s*\S{4,}/gi, level: 'high' },
+  { kind: 'card_number', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, level: 'high', check: match => luhnValid(match.replace(/\D/g, '')) },
+  { kind: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g, level: 'high', check: match => ibanValid(match.replace(/ /g, '')) },
+  { kind: 'email_address', pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g, level: 'low' }
+];
+
+// Tokens at least this long and this random (bits per character) look like
+// generated secrets. Hex is left out: hashes and commit ids are everywhere in
+// screenshots and rarely secret
+const ENTROPY_MIN_LENGTH = 24;
+const ENTROPY_THRESHOLD = 4;
+const ENTROPY_TOKEN = /[A-Za-z0-9+/_=-]{24,}/g;
+
+const LEVEL_ORDER: SensitivityLevel[] = ['none', 'low', 'high'];
+
+const REDACTED_TEXT = '[REDACTED]';
+
+// Covers an image entirely, where there is no telling where the secret is
+export const WHOLE_IMAGE: SensitiveRegion = { label: 'whole_image', x: 0, y: 0, width: 1, height: 1 };
+
+function luhnValid(digits: string) {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616 check digits: move the country code to the end, turn letters
+// into numbers and take the remainder modulo 97 piece by piece
+function ibanValid(iban: string) {
+  const digits = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (let i = 0; i < digits.length; i += 7) {
+    remainder = Number(`${remainder}${digits.slice(i, i + 7)}`) % 97;
+  }
+  return remainder === 1;
+}
+
+export function shannonEntropy(value: string) {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function looksRandom(token: string) {
+  return token.length >= ENTROPY_MIN_LENGTH
+    && !/^[0-9a-f]+$/i.test(token)
+    && /\d/.test(token)
+    && /[A-Za-z]/.test(token)
+    && shannonEntropy(token) >= ENTROPY_THRESHOLD;
+}
+
+// Known formats first; random-looking tokens only where nothing matched yet
+function findSecrets(text: string): SecretMatch[] {
+  const matches: SecretMatch[] = [];
+  const overlaps = (start: number, end: number) => matches.some(match => start < match.end && end > match.start);
+
+  for (const { kind, pattern, level, check } of SECRET_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if ((check && !check(match[0])) || overlaps(start, end)) continue;
+      matches.push({ kind, level, start, end });
+    }
+  }
+  for (const match of text.matchAll(ENTROPY_TOKEN)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (looksRandom(match[0]) && !overlaps(start, end)) {
+      matches.push({ kind: 'possible_secret', level: 'low', start, end });
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+// Enough to recognise the secret in the image, not enough to use it
+function excerpt(secret: string) {
+  return `${secret.slice(0, 4)}… (${secret.length} chars)`;
+}
+
+function clampRegion(region: SensitiveRegion): SensitiveRegion | undefined {
+  const x = Math.min(Math.max(region.x, 0), 1);
+  const y = Math.min(Math.max(region.y, 0), 1);
+  const width = Math.min(region.width, 1 - x);
+  const height = Math.min(region.height, 1 - y);
+  return width > 0 && height > 0 ? { label: region.label, x, y, width, height } : undefined;
+}
+
+export function maxLevel(...levels: SensitivityLevel[]): SensitivityLevel {
+  return LEVEL_ORDER[Math.max(...levels.map(level => LEVEL_ORDER.indexOf(level)))];
+}
+
+/**
+ * Combines the local text checks with what the model reported. The level is
+ * the higher of the two, so neither side can clear the other's finding.
+ */
+export function assessSensitivity(text: string, model?: { level: SensitivityLevel; regions: SensitiveRegion[] }): SensitivityReport {
+  const matches = findSecrets(text);
+  const findings: SensitiveFinding[] = [];
+  for (const match of matches) {
+    const finding = { kind: match.kind, source: 'text' as const, excerpt: excerpt(text.slice(match.start, match.end)) };
+    // The same secret can appear twice, e.g. in a PDF's excerpt and its text layer
+    if (!findings.some(other => other.kind === finding.kind && other.excerpt === finding.excerpt)) findings.push(finding);
+  }
+
+  const regions = (model?.regions ?? []).map(clampRegion).filter((region): region is SensitiveRegion => Boolean(region));
+  const modelLevel = model?.level ?? 'none';
+  if (modelLevel !== 'none') {
+    const labels = [...new Set(regions.map(region => region.label))];
+    findings.push(...(labels.length > 0 ? labels : ['sensitive_content']).map(kind => ({ kind, source: 'model' as const })));
+  }
+
+  return {
+    level: maxLevel(modelLevel, ...matches.map(match => match.level)),
+    findings,
+    regions
+  };
+}
+
+export function isSensitive(report: SensitivityReport | undefined) {
+  return Boolean(report && report.level !== 'none');
+}
+
+export const REDACTION_LEVELS: RedactionLevel[] = ['low', 'high'];
+
+// Only secrets are redacted by default; email addresses and random-looking
+// tokens alone would cover many ordinary chat and web screenshots
+export const DEFAULT_REDACTION_LEVEL: RedactionLevel = 'high';
+
+/**
+ * The regions to cover in a file flagged at `minLevel` or above: the ones
+ * that were reported, or the whole image for a high-level finding without
+ * any. Null when the file is exported as it is.
+ */
+export function redactionRegions(report: SensitivityReport | undefined, minLevel: RedactionLevel): SensitiveRegion[] | null {
+  if (!report || LEVEL_ORDER.indexOf(report.level) < LEVEL_ORDER.indexOf(minLevel)) return null;
+  if (report.regions.length > 0) return report.regions;
+  return report.level === 'high' ? [WHOLE_IMAGE] : null;
+}
+
+// Replaces everything the local checks would flag with a placeholder
+export function redactSensitiveText(text: string) {
+  let redacted = text;
+  for (const match of findSecrets(text).reverse()) {
+    redacted = redacted.slice(0, match.start) + REDACTED_TEXT + redacted.slice(match.end);
+  }
+  return redacted;
+}
+
+// Distinct finding kinds, for badges and indexes
+export function describeFindings(report: SensitivityReport | undefined) {
+  return [...new Set(report?.findings.map(finding => finding.kind) ?? [])].join(', ');
+}
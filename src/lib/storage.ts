@@ -0,0 +1,32 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Everything the app persists locally (caches, profiles, library) lives here
+export const DATA_DIR = process.env.ORGANIZER_DATA_DIR || path.join(process.cwd(), '.data');
+
+export function dataPath(...segments: string[]) {
+  return path.join(DATA_DIR, ...segments);
+}
+
+export async function readJsonFile<T>(filePath: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+// Keeps temporary names unique when the same file is written twice at once
+let tempFileCounter = 0;
+
+/**
+ * Writes JSON through a temporary file and a rename, so readers never see a
+ * half-written file.
+ */
+export async function writeJsonFile(filePath: string, value: unknown) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.${tempFileCounter++}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(value, null, 2));
+  await fs.rename(tempPath, filePath);
+}
@@ -0,0 +1,69 @@
+import { isWithinCategory } from "./category-tree";
+
+// Tags are the topics of one file, so a screenshot of a failing payment API
+// can be both "finance" and "coding" while it is filed under one category.
+// Nothing here may import Node-only modules.
+
+export const MAX_TAGS = 6;
+
+interface Tagged {
+  analysis: { category: string; main_theme?: string; tags?: string[] };
+}
+
+// Lowercase words joined by underscores, without repeats; the main theme
+// always comes first
+export function normalizeTags(tags: string[], mainTheme?: string): string[] {
+  const normalized = [mainTheme ?? '', ...tags]
+    .map(tag => tag.trim().toLowerCase().replace(/^#/, '').replace(/[\s-]+/g, '_').replace(/[^\p{L}\p{N}_]/gu, ''))
+    .filter(tag => tag && tag !== 'misc');
+  return [...new Set(normalized)].slice(0, MAX_TAGS);
+}
+
+export interface ResultFilters {
+  // Every selected tag has to be present
+  tags: string[];
+  theme?: string;
+  // Also matches the category's subcategories
+  category?: string;
+}
+
+export interface ResultFacet {
+  name: string;
+  count: number;
+}
+
+export function matchesFilters(result: Tagged, filters: ResultFilters) {
+  const tags = result.analysis.tags ?? [];
+  return filters.tags.every(tag => tags.includes(tag)) &&
+    (!filters.theme || result.analysis.main_theme === filters.theme) &&
+    (!filters.category || isWithinCategory(result.analysis.category, filters.category));
+}
+
+function countFacet(values: string[]): ResultFacet[] {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts].map(([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/**
+ * Counts per tag, theme and category. Each facet counts the results that
+ * match every other filter, so its counts say what picking a value leaves;
+ * tags narrow each other, so they count against all filters.
+ */
+export function facetResults(results: Tagged[], filters: ResultFilters) {
+  const matching = (except: keyof ResultFilters) => results.filter(result => matchesFilters(result, { ...filters, [except]: except === 'tags' ? [] : undefined }));
+  return {
+    tags: countFacet(results.filter(result => matchesFilters(result, filters)).flatMap(result => result.analysis.tags ?? [])),
+    themes: countFacet(matching('theme').map(result => result.analysis.main_theme).filter((theme): theme is string => Boolean(theme))),
+    categories: countFacet(matching('category').map(result => result.analysis.category))
+  };
+}
+
+// Paths of the files under each tag, for export indexes
+export function filesByTag(files: Array<{ tags: string[]; newPath: string }>): Record<string, string[]> {
+  const byTag: Record<string, string[]> = {};
+  for (const file of files) {
+    for (const tag of file.tags) (byTag[tag] ??= []).push(file.newPath);
+  }
+  return Object.fromEntries(Object.entries(byTag).sort(([a], [b]) => a.localeCompare(b)));
+}
@@ -0,0 +1,82 @@
+import type { ExportableResult, RedactionMode } from "./export";
+import { EXTRACTORS } from "./extractors";
+import type { JsonSchema } from "./schemas";
+import { redactSensitiveText } from "./sensitivity";
+import type { ContentType, ImageAnalysis, Transcript } from "./types";
+
+// Transcription mode: the full text of code, terminal and error screenshots,
+// exported as a Markdown file next to the image. Nothing here may import
+// Node-only modules.
+
+export const TRANSCRIBED_TYPES: ContentType[] = ['code', 'terminal', 'error'];
+
+// Long enough for a full screen of a log, short enough for a JSON response
+const MAX_TRANSCRIPT_LENGTH = 20_000;
+
+export const TRANSCRIPT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    language: { type: 'string' },
+    text: { type: 'string' }
+  },
+  required: ['language', 'text']
+};
+
+export function buildTranscriptionPrompt(type: ContentType) {
+  return `You are transcribing an image that shows ${EXTRACTORS[type].description}.
+
+Return ONLY a valid JSON object with this exact structure:
+
+{
+  "language": "language for syntax highlighting, e.g. typescript, python, bash, json or log",
+  "text": "all the code or terminal text in the image, verbatim"
+}
+
+Copy every line exactly as shown, keeping indentation, line breaks and punctuation. Leave out line numbers, window titles and other editor or terminal chrome. Write … where the text cannot be read.`;
+}
+
+export function needsTranscript(analysis: Pick<ImageAnalysis, 'status' | 'content_type' | 'transcript'>) {
+  return analysis.status === 'success' && Boolean(analysis.content_type && TRANSCRIBED_TYPES.includes(analysis.content_type)) && !analysis.transcript;
+}
+
+/**
+ * Normalizes a transcription answer, or a transcript sent back by a client.
+ * Undefined when there is no text.
+ */
+export function toTranscript(value: unknown): Transcript | undefined {
+  const answer = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  // Indentation of the first line is kept; blank lines around the text are not
+  const text = typeof answer.text === 'string' ? answer.text.replace(/^\s*\n/, '').trimEnd().slice(0, MAX_TRANSCRIPT_LENGTH) : '';
+  if (!text.trim()) return undefined;
+  const language = typeof answer.language === 'string' ? answer.language.trim().toLowerCase() : '';
+  return { language: /^[a-z0-9_+#.-]{1,30}$/.test(language) ? language : null, text };
+}
+
+// The transcript sits next to the file, e.g. coding/react_error.png.md. The
+// extension stays so that a.png and a.jpg in one folder do not share one
+export function transcriptPath(newPath: string) {
+  return `${newPath}.md`;
+}
+
+// A fence longer than any run of backticks in the text, so it cannot be closed early
+export function transcriptToMarkdown(transcript: Transcript, fileName: string) {
+  const longestRun = Math.max(0, ...(transcript.text.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `# ${fileName}
+
+${fence}${transcript.language ?? ''}
+${transcript.text}
+${fence}
+`;
+}
+
+/**
+ * The companion file of an exported result, or null when it has no
+ * transcript. Secrets are masked when the export redacts.
+ */
+export function transcriptFile(result: ExportableResult, newPath: string, redactionMode: RedactionMode): { path: string; content: string } | null {
+  const transcript = result.analysis.transcript;
+  if (!transcript) return null;
+  const text = redactionMode === 'off' ? transcript.text : redactSensitiveText(transcript.text);
+  return { path: transcriptPath(newPath), content: transcriptToMarkdown({ ...transcript, text }, newPath.split('/').pop()!) };
+}
@@ -0,0 +1,245 @@
+// Shared shapes passed between the analyze pipeline, the providers and the UI.
+
+export type FileType = 'image' | 'pdf';
+
+// How a model answer was obtained: valid on the first try, valid after one
+// repair retry, or replaced by placeholder values
+export type ParseStatus = 'parsed' | 'repaired' | 'fallback';
+
+// Outcome of phase 1 for one file: a usable model answer (including cache
+// hits), placeholder values because the answer was unusable, or no answer at
+// all (timeout, rate limit, unreadable file, ...)
+export type ResultStatus = 'success' | 'fallback' | 'failed';
+
+export type CaptureTimeSource = 'exif' | 'png' | 'pdf' | 'lastModified';
+
+export interface CaptureMetadata {
+  // ISO timestamp of when the image was taken, or null if nothing reliable was found
+  capturedAt: string | null;
+  capturedAtSource: CaptureTimeSource | null;
+  width?: number;
+  height?: number;
+  orientation: 'portrait' | 'landscape' | 'square' | null;
+  device?: string;
+  software?: string;
+  isScreenshot: boolean;
+  // Why the file is believed to be a screenshot (file name, EXIF comment, ...)
+  screenshotHints: string[];
+}
+
+// Kinds of content whose type-specific fields phase 1 reads; see extractors.ts
+export type ContentType = 'error' | 'code' | 'terminal' | 'receipt' | 'chat' | 'web_page';
+
+// Fields the model could not read are null, lists empty
+export interface ErrorDetails {
+  type: 'error';
+  language: string | null;
+  error_class: string | null;
+  message: string | null;
+  stack_frames: string[];
+}
+
+export interface CodeDetails {
+  type: 'code';
+  language: string | null;
+  // Name of the open file or editor tab
+  file_name: string | null;
+}
+
+// Terminal sessions and log output
+export interface TerminalDetails {
+  type: 'terminal';
+  shell: string | null;
+  commands: string[];
+}
+
+// Receipts, invoices and payslips; `merchant` is whoever issued the document
+export interface ReceiptDetails {
+  type: 'receipt';
+  merchant: string | null;
+  // YYYY-MM-DD
+  date: string | null;
+  amount: number | null;
+  // ISO 4217 code, e.g. EUR
+  currency: string | null;
+}
+
+export interface ChatDetails {
+  type: 'chat';
+  platform: string | null;
+  participants: string[];
+}
+
+export interface WebPageDetails {
+  type: 'web_page';
+  url: string | null;
+  domain: string | null;
+  title: string | null;
+}
+
+export type ContentDetails = ErrorDetails | CodeDetails | TerminalDetails | ReceiptDetails | ChatDetails | WebPageDetails;
+
+// Verbatim text of a code, terminal or error screenshot
+export interface Transcript {
+  // Fence language, e.g. typescript, bash or log; null when unknown
+  language: string | null;
+  text: string;
+}
+
+export interface ImageAnalysis {
+  index: number;
+  content: string;
+  extracted_text: string;
+  main_theme: string;
+  // Every topic the file is about, main theme first; see normalizeTags
+  tags: string[];
+  // Missing when the content is of no type with an extractor
+  content_type?: ContentType;
+  // Structured fields from the content type's extractor, when it succeeded
+  details?: ContentDetails;
+  // Only when transcription was asked for; see transcripts.ts
+  transcript?: Transcript;
+  confidence: number;
+  fileName: string;
+  fileType: FileType;
+  parseStatus: ParseStatus;
+  status: ResultStatus;
+  // Why the analysis is a fallback or failed
+  error?: string;
+  hash?: string;
+  // True when the analysis came from the local cache instead of the model
+  cached: boolean;
+  metadata?: CaptureMetadata;
+  // Difference hash of the image, for near-duplicate detection
+  perceptualHash?: string;
+  // Set when this upload copies an earlier one and reuses its analysis
+  duplicate?: DuplicateInfo;
+  sensitivity?: SensitivityReport;
+  // Model usage of this analysis; missing when no request was made (cache hits, duplicates)
+  usage?: TokenUsage;
+}
+
+export interface TokenUsage {
+  // Model requests, including repair retries
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  // Estimated from the model's list price; null when the price is unknown
+  costUsd: number | null;
+  // Set when one request covered several images: tokens and cost are this
+  // image's even share, `requests` counts the whole batch
+  sharedBy?: number;
+}
+
+// Model usage of one run, per phase, as returned next to the results
+export interface RunUsage {
+  model: string;
+  // Images per phase-1 request; 1 means one request per image
+  batchSize: number;
+  // Batches whose answers could not be mapped back and were re-sent one image at a time
+  batchFallbacks: number;
+  analysis: TokenUsage;
+  categorization: TokenUsage;
+  total: TokenUsage;
+}
+
+export interface DuplicateInfo {
+  // Index of the representative that was sent to the model
+  of: number;
+  kind: 'exact' | 'near';
+  // Bits that differ between the two perceptual hashes; 0 for exact copies
+  distance: number;
+}
+
+export type SensitivityLevel = 'none' | 'low' | 'high';
+
+// Lowest level at which a flagged image is redacted in an export
+export type RedactionLevel = Exclude<SensitivityLevel, 'none'>;
+
+// Area of an image as fractions (0-1) of its width and height, from the top left
+export interface SensitiveRegion {
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SensitiveFinding {
+  // What was found: api_key, password, card_number, ...
+  kind: string;
+  // `text` checks run locally on the extracted text; `model` is what the model reported
+  source: 'text' | 'model';
+  // Start of the match, never the whole secret
+  excerpt?: string;
+}
+
+export interface SensitivityReport {
+  level: SensitivityLevel;
+  findings: SensitiveFinding[];
+  regions: SensitiveRegion[];
+}
+
+export interface CategoryInfo {
+  description: string;
+  // `index` values of the analyses filed under this category
+  images: number[];
+  // Set when categorizing against existing categories: whether this one was
+  // reused or newly proposed
+  origin?: 'existing' | 'new';
+  // Why the model proposed a new category instead of reusing one
+  justification?: string;
+}
+
+export type CategoryMap = Record<string, CategoryInfo>;
+
+export type RuleField = 'extracted_text' | 'content' | 'main_theme' | 'fileName';
+
+/**
+ * Files an image under `category` when `pattern` matches `field`. `before`
+ * rules take matching images out of the model call entirely; `after` rules
+ * override whatever the model decided.
+ */
+export interface CategoryRule {
+  field: RuleField;
+  pattern: string;
+  flags?: string;
+  category: string;
+  stage: 'before' | 'after';
+}
+
+export interface OrganizationProfile {
+  id: string;
+  name: string;
+  description?: string;
+  // Fixed categories the model must choose from; empty lets it invent its own
+  taxonomy: Array<{ name: string; description: string }>;
+  nameTemplate?: string;
+  // Extra grouping instructions sent along with the user's own
+  instructions?: string;
+  rules: CategoryRule[];
+  builtIn?: boolean;
+}
+
+// One analyzed file in the persistent library, keyed by its content hash
+export interface LibraryEntry {
+  hash: string;
+  // Name of the most recent upload with this content
+  fileName: string;
+  fileType: FileType;
+  content: string;
+  category: string;
+  // Secrets are masked before the text is stored
+  extracted_text: string;
+  main_theme: string;
+  // Missing on entries recorded before tags existed
+  tags?: string[];
+  confidence: number;
+  categorizedBy: 'rule' | 'model';
+  metadata?: CaptureMetadata;
+  sensitivity: SensitivityLevel;
+  // Whether a JPEG preview is stored for this entry
+  thumbnail: boolean;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
@@ -0,0 +1,152 @@
+import { MAX_EXISTING_CATEGORIES, parseExistingCategories, type ExistingCategory } from "./existing-categories";
+import { MAX_ANALYSIS_BATCH_SIZE } from "./pipeline";
+
+const MEGABYTE = 1024 * 1024;
+
+// Limits on what one request may upload, checked before anything is decoded
+export const MAX_FILE_BYTES = (Number(process.env.UPLOAD_MAX_FILE_MB) || 25) * MEGABYTE;
+export const MAX_BATCH_BYTES = (Number(process.env.UPLOAD_MAX_BATCH_MB) || 200) * MEGABYTE;
+
+export class UploadError extends Error {
+  constructor(message: string, readonly status = 413) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+export interface UploadRequest {
+  files: File[];
+  // Client-side File.lastModified per entry of `files`; multipart drops it
+  lastModified: Array<number | undefined>;
+  imageDataUrls: string[];
+  userPrompt?: string;
+  // Id of the organization profile to categorize with
+  profileId?: string;
+  // Ask the server to re-analyze instead of answering from the analysis cache
+  noCache: boolean;
+  // Images per phase-1 model request; the server default when missing
+  batchSize?: number;
+  // Also transcribe code, terminal and error screenshots verbatim
+  transcribe: boolean;
+  // Categories to file into before proposing new ones, e.g. the folders of an archive
+  existingCategories: ExistingCategory[];
+  // Also reuse the categories of earlier runs recorded in the library
+  reuseCategories: boolean;
+  nameTemplate?: string;
+  // `results` and `categories` of an earlier run, so an export can skip the
+  // model; left unvalidated (and unparsed if not JSON) for the caller to check
+  results?: unknown;
+  categories?: unknown;
+}
+
+function megabytes(bytes: number) {
+  return `${(bytes / MEGABYTE).toFixed(1)} MB`;
+}
+
+export function checkFileSize(name: string, bytes: number) {
+  if (bytes > MAX_FILE_BYTES) {
+    throw new UploadError(`${name} is ${megabytes(bytes)}; each file can be at most ${megabytes(MAX_FILE_BYTES)}`);
+  }
+}
+
+function checkBatchSize(bytes: number) {
+  if (bytes > MAX_BATCH_BYTES) {
+    throw new UploadError(`The upload is ${megabytes(bytes)}; a request can be at most ${megabytes(MAX_BATCH_BYTES)}`);
+  }
+}
+
+// Decoded size of a base64 data: URL
+function dataUrlBytes(dataUrl: string) {
+  return Math.floor((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+}
+
+function checkUploadSizes(upload: UploadRequest) {
+  upload.files.forEach(file => checkFileSize(file.name, file.size));
+  upload.imageDataUrls.forEach((dataUrl, i) => checkFileSize(`Image ${i + 1}`, dataUrlBytes(dataUrl)));
+  checkBatchSize(
+    upload.files.reduce((sum, file) => sum + file.size, 0) +
+    upload.imageDataUrls.reduce((sum, dataUrl) => sum + dataUrlBytes(dataUrl), 0)
+  );
+}
+
+function isTruthy(value: unknown) {
+  return value === true || value === '1' || value === 'true';
+}
+
+// NaN for anything that is present but not a number, so it fails validation
+function optionalNumber(value: unknown) {
+  return value === null || value === undefined || value === '' ? undefined : Number(value);
+}
+
+function parseJsonField(value: FormDataEntryValue | null): unknown {
+  if (typeof value !== 'string') return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Reads an upload from either multipart form data (`files`, `images`,
+ * `userPrompt`, `profileId` fields) or, for backward compatibility, a JSON body with
+ * `images` as data: URLs. Throws UploadError when a file or the whole
+ * upload is over the size limits, or when `batchSize` or
+ * `existingCategories` is invalid.
+ */
+export async function parseUploadRequest(request: Request): Promise<UploadRequest> {
+  const contentType = request.headers.get('content-type') || '';
+  // Oversized bodies are refused before they are read into memory
+  const contentLength = Number(request.headers.get('content-length'));
+  if (contentLength) checkBatchSize(contentLength);
+
+  const { existingCategories, ...rest } = await readUploadRequest(request, contentType);
+  const parsedCategories = parseExistingCategories(existingCategories);
+  if (!parsedCategories) {
+    throw new UploadError(`existingCategories must be a list of at most ${MAX_EXISTING_CATEGORIES} names or { name, description } objects`, 400);
+  }
+  const upload = { ...rest, existingCategories: parsedCategories };
+  checkUploadSizes(upload);
+  if (upload.batchSize !== undefined && !(Number.isInteger(upload.batchSize) && upload.batchSize >= 1 && upload.batchSize <= MAX_ANALYSIS_BATCH_SIZE)) {
+    throw new UploadError(`batchSize must be a whole number from 1 to ${MAX_ANALYSIS_BATCH_SIZE}`, 400);
+  }
+  return upload;
+}
+
+async function readUploadRequest(request: Request, contentType: string): Promise<Omit<UploadRequest, 'existingCategories'> & { existingCategories: unknown }> {
+  if (contentType.includes('multipart/form-data')) {
+    const formData = await request.formData();
+    return {
+      files: Array.from(formData.getAll('files') as File[]),
+      lastModified: formData.getAll('lastModified').map(value => Number(value) || undefined),
+      imageDataUrls: Array.from(formData.getAll('images') as string[]),
+      userPrompt: formData.get('userPrompt') as string | null || undefined,
+      profileId: formData.get('profileId') as string | null || undefined,
+      noCache: isTruthy(formData.get('noCache')),
+      batchSize: optionalNumber(formData.get('batchSize')),
+      transcribe: isTruthy(formData.get('transcribe')),
+      existingCategories: parseJsonField(formData.get('existingCategories')),
+      reuseCategories: isTruthy(formData.get('reuseCategories')),
+      nameTemplate: formData.get('nameTemplate') as string | null || undefined,
+      results: parseJsonField(formData.get('results')),
+      categories: parseJsonField(formData.get('categories'))
+    };
+  }
+
+  const body = await request.json();
+  return {
+    files: [],
+    lastModified: [],
+    imageDataUrls: body.images || [],
+    userPrompt: body.userPrompt,
+    profileId: body.profileId || undefined,
+    noCache: isTruthy(body.noCache),
+    batchSize: optionalNumber(body.batchSize),
+    transcribe: isTruthy(body.transcribe),
+    existingCategories: body.existingCategories,
+    reuseCategories: isTruthy(body.reuseCategories),
+    nameTemplate: body.nameTemplate || undefined,
+    results: body.results,
+    categories: body.categories
+  };
+}
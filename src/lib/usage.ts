@@ -0,0 +1,115 @@
+import type { VisionProvider } from "./providers";
+import type { RunUsage, TokenUsage } from "./types";
+
+// Token usage and cost estimates per run, so single-image and batched
+// analysis can be compared.
+
+export interface TokenCounts {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// USD per million tokens, from the providers' public price lists (Gemini 2.5
+// Pro: prompts up to 200k tokens). Thinking tokens are billed as output.
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  stub: { input: 0, output: 0 }
+};
+
+// MODEL_PRICE_INPUT and MODEL_PRICE_OUTPUT (USD per million tokens) override
+// the table, e.g. 0 for a local Ollama model
+function modelPrice(model: string) {
+  const input = process.env.MODEL_PRICE_INPUT;
+  const output = process.env.MODEL_PRICE_OUTPUT;
+  if (input !== undefined && output !== undefined) {
+    return { input: Number(input) || 0, output: Number(output) || 0 };
+  }
+  return MODEL_PRICES[model];
+}
+
+// Running totals for one run; chunked callers pass the same meter to every chunk
+export interface UsageMeter {
+  analysis: TokenCounts;
+  categorization: TokenCounts;
+  batchFallbacks: number;
+}
+
+export function emptyCounts(): TokenCounts {
+  return { requests: 0, inputTokens: 0, outputTokens: 0 };
+}
+
+export function createUsageMeter(): UsageMeter {
+  return { analysis: emptyCounts(), categorization: emptyCounts(), batchFallbacks: 0 };
+}
+
+export function addCounts(total: TokenCounts, counts: TokenCounts | undefined) {
+  if (!counts) return;
+  total.requests += counts.requests;
+  total.inputTokens += counts.inputTokens;
+  total.outputTokens += counts.outputTokens;
+}
+
+export function priceUsage(provider: VisionProvider, counts: TokenCounts): TokenUsage {
+  const price = modelPrice(provider.model);
+  return {
+    ...counts,
+    costUsd: price ? (counts.inputTokens * price.input + counts.outputTokens * price.output) / 1_000_000 : null
+  };
+}
+
+/**
+ * Splits the usage of a request that covered `count` images into equal
+ * per-image shares.
+ */
+export function shareUsage(usage: TokenUsage, count: number): TokenUsage {
+  if (count <= 1) return usage;
+  return {
+    requests: usage.requests,
+    inputTokens: Math.round(usage.inputTokens / count),
+    outputTokens: Math.round(usage.outputTokens / count),
+    costUsd: usage.costUsd === null ? null : usage.costUsd / count,
+    sharedBy: count
+  };
+}
+
+export function summarizeUsage(provider: VisionProvider, meter: UsageMeter, batchSize: number): RunUsage {
+  const total = emptyCounts();
+  addCounts(total, meter.analysis);
+  addCounts(total, meter.categorization);
+  return {
+    model: `${provider.id}/${provider.model}`,
+    batchSize,
+    batchFallbacks: meter.batchFallbacks,
+    analysis: priceUsage(provider, meter.analysis),
+    categorization: priceUsage(provider, meter.categorization),
+    total: priceUsage(provider, total)
+  };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    requests: a.requests + b.requests,
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    costUsd: a.costUsd === null || b.costUsd === null ? null : a.costUsd + b.costUsd
+  };
+}
+
+// Both runs' usage together, e.g. a run and the retry of its failed items
+export function combineRunUsage(a: RunUsage | null, b: RunUsage | null): RunUsage | null {
+  if (!a || !b) return a ?? b;
+  return {
+    ...a,
+    batchFallbacks: a.batchFallbacks + b.batchFallbacks,
+    analysis: addUsage(a.analysis, b.analysis),
+    categorization: addUsage(a.categorization, b.categorization),
+    total: addUsage(a.total, b.total)
+  };
+}
@@ -0,0 +1,205 @@
+import { watch, promises as fs } from "fs";
+import path from "path";
+import { UNCATEGORIZED } from "./category-edits";
+import { mergeExistingCategories } from "./existing-categories";
+import {
+  analyzeFiles,
+  applyPlan,
+  isSupportedFile,
+  JOURNAL_DIR_NAME,
+  listCategoryFolders,
+  planTransfers,
+  scanDirectory,
+  type AnalyzeFilesOptions
+} from "./organize";
+import type { AnalysisResult } from "./pipeline";
+import type { VisionProvider } from "./providers";
+
+// Watch-folder mode: files that appear directly inside a directory are
+// analyzed once they stop changing and moved into a category folder next to
+// them. Every decision is appended to an audit log.
+
+export const WATCH_LOG_NAME = 'watch-log.jsonl';
+
+export interface WatchOptions extends Omit<AnalyzeFilesOptions, 'onAnalyzed'> {
+  // Where category folders live; defaults to the watched directory
+  root?: string;
+  // Folder (under root) for files that could not be filed confidently
+  inbox: string;
+  // A new category folder is only created for analyses at least this confident
+  minConfidence: number;
+  // Quiet period after the last change to a file before it is processed
+  debounceMs: number;
+  nameTemplate: string;
+  // Also file what is already in the directory when watching starts
+  includeExisting?: boolean;
+  onLog?: (entry: WatchLogEntry) => void;
+}
+
+export type WatchAction = 'filed' | 'created_category' | 'inbox' | 'error';
+
+export interface WatchLogEntry {
+  time: string;
+  file: string;
+  action: WatchAction;
+  to?: string;
+  category?: string;
+  confidence?: number;
+  categorizedBy?: 'rule' | 'model';
+  reason: string;
+  // Journal of the move, for `organize undo --journal`
+  journal?: string;
+}
+
+export interface Watcher {
+  // Stops watching and waits for the batch in progress
+  close(): Promise<void>;
+}
+
+interface FolderChoice {
+  folder: string;
+  action: Exclude<WatchAction, 'error'>;
+  reason: string;
+}
+
+function chooseFolder(result: AnalysisResult, existing: string[], options: WatchOptions): FolderChoice {
+  const { category, confidence } = result.analysis;
+  if (result.parseStatus === 'fallback') {
+    return { folder: options.inbox, action: 'inbox', reason: 'the model answer was unusable' };
+  }
+  if (category === UNCATEGORIZED) {
+    return { folder: options.inbox, action: 'inbox', reason: 'no category fits' };
+  }
+
+  const match = existing.find(folder => folder.toLowerCase() === category.toLowerCase());
+  if (match) {
+    return { folder: match, action: 'filed', reason: `matches existing folder "${match}"` };
+  }
+  // Rules are deterministic, so they may create folders at any confidence
+  if (result.categorizedBy === 'rule') {
+    return { folder: category, action: 'created_category', reason: 'assigned by a profile rule' };
+  }
+  if (confidence >= options.minConfidence) {
+    return { folder: category, action: 'created_category', reason: `new category, confidence ${confidence} >= ${options.minConfidence}` };
+  }
+  return {
+    folder: options.inbox,
+    action: 'inbox',
+    reason: `new category "${category}" but confidence ${confidence} < ${options.minConfidence}`
+  };
+}
+
+/**
+ * Watches `directory` (not its subdirectories) and files each supported file
+ * that appears in it. Files are processed in batches, one batch at a time.
+ */
+export function watchDirectory(provider: VisionProvider, directory: string, options: WatchOptions): Watcher {
+  const root = options.root ?? directory;
+  const logFile = path.join(root, JOURNAL_DIR_NAME, WATCH_LOG_NAME);
+  const timers = new Map<string, NodeJS.Timeout>();
+  const ready = new Set<string>();
+  let running: Promise<void> | undefined;
+
+  async function log(entry: Omit<WatchLogEntry, 'time'>) {
+    const full = { time: new Date().toISOString(), ...entry };
+    await fs.mkdir(path.dirname(logFile), { recursive: true });
+    await fs.appendFile(logFile, JSON.stringify(full) + '\n');
+    options.onLog?.(full);
+  }
+
+  async function processBatch(filePaths: string[]) {
+    try {
+      const existing = await listCategoryFolders(root, options.inbox);
+      // The model is asked to reuse existing folders, but may still propose new ones
+      const analyzed = await analyzeFiles(provider, filePaths, {
+        ...options,
+        existingCategories: mergeExistingCategories(existing.map(name => ({ name, description: '' })), options.existingCategories ?? [])
+      });
+
+      const choices = new Map<number, FolderChoice>();
+      const results = analyzed.results.map(result => {
+        const choice = chooseFolder(result, existing, options);
+        choices.set(result.index, choice);
+        return { ...result, analysis: { ...result.analysis, category: choice.folder } };
+      });
+
+      const plan = await planTransfers(filePaths, { ...analyzed, results }, root, options.nameTemplate);
+      const journal = await applyPlan(plan, 'move');
+      // Retried once the file changes again, or when watching restarts with --include-existing
+      for (const { from, reason } of plan.skipped) {
+        await log({ file: from, action: 'error', reason });
+      }
+
+      for (const transfer of plan.transfers) {
+        const result = results.find(r => filePaths[r.index] === transfer.from)!;
+        const choice = choices.get(result.index)!;
+        await log({
+          file: transfer.from,
+          action: choice.action,
+          to: transfer.to,
+          category: analyzed.results.find(r => r.index === result.index)!.analysis.category,
+          confidence: result.analysis.confidence,
+          categorizedBy: result.categorizedBy,
+          reason: choice.reason,
+          journal
+        });
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      for (const file of filePaths) {
+        // The log itself may be what failed (full disk, permissions)
+        try {
+          await log({ file, action: 'error', reason });
+        } catch (logError) {
+          console.error(`Could not log the failure for ${file} (${reason}):`, logError);
+        }
+      }
+    }
+  }
+
+  // Drains everything that became ready, including files that settle while a
+  // batch is running
+  async function drain() {
+    try {
+      while (ready.size > 0) {
+        const batch = [...ready];
+        ready.clear();
+        await processBatch(batch);
+      }
+    } finally {
+      running = undefined;
+    }
+  }
+
+  async function settle(filePath: string) {
+    timers.delete(filePath);
+    const stat = await fs.stat(filePath).catch(() => undefined);
+    // Gone again (e.g. our own move, or a temporary file) or not a regular file
+    if (!stat?.isFile()) return;
+    ready.add(filePath);
+    // Nothing awaits a drain until close(), so a failure must not go unhandled
+    running ??= drain().catch(error => console.error('Watch batch failed:', error));
+  }
+
+  const watcher = watch(directory, (_event, fileName) => {
+    if (!fileName || !isSupportedFile(fileName)) return;
+    const filePath = path.join(directory, fileName);
+    clearTimeout(timers.get(filePath));
+    timers.set(filePath, setTimeout(() => void settle(filePath), options.debounceMs));
+  });
+
+  if (options.includeExisting) {
+    scanDirectory(directory)
+      .then(filePaths => filePaths.forEach(filePath => void settle(filePath)))
+      .catch(error => console.error(`Could not scan ${directory}:`, error));
+  }
+
+  return {
+    async close() {
+      watcher.close();
+      for (const timer of timers.values()) clearTimeout(timer);
+      timers.clear();
+      await running;
+    }
+  };
+}